@@ -0,0 +1,84 @@
+// Checks gamepad polling lets go of everything a pad held when it's unplugged
+// or swapped for another mid-press, so no action is left held with nothing
+// pressing it. Pads are faked through navigator.getGamepads.
+//
+//   npm run check:gamepads
+
+import { ActionState, actionDownCommands, actionUpCommands, analogCommands, createActionState } from '../src/components/game/InputActions';
+import { createGamepadTracker, pollGamepad } from '../src/components/game/Gamepads';
+
+interface FakePad {
+  index: number;
+  id: string;
+  connected: boolean;
+  buttons: { pressed: boolean }[];
+  axes: number[];
+}
+
+let pads: (FakePad | null)[] = [];
+
+// Node 21 and later have a navigator of their own, without gamepads
+Object.defineProperty(globalThis, 'navigator', {
+  value: { getGamepads: () => pads },
+  configurable: true,
+});
+
+const createPad = (index: number, pressedButtons: number[] = [], axes: number[] = [0, 0]): FakePad => ({
+  index,
+  id: `Fake pad ${index}`,
+  connected: true,
+  buttons: Array.from({ length: 17 }, (_, button) => ({ pressed: pressedButtons.includes(button) })),
+  axes,
+});
+
+// Feeds a poll into the actions the same way the game does
+function poll(tracker: ReturnType<typeof createGamepadTracker>, actions: ActionState) {
+  const { changes, moves } = pollGamepad(tracker);
+  for (const { type, action } of changes) {
+    if (type === 'down') {
+      actionDownCommands(actions, action);
+    } else {
+      actionUpCommands(actions, action);
+    }
+  }
+  for (const { axis, value } of moves) {
+    analogCommands(actions, axis, value);
+  }
+}
+
+const describe = (actions: ActionState) =>
+  `held [${[...actions.held].join(', ')}], stick ${actions.analog.x},${actions.analog.z}`;
+
+interface Case {
+  name: string;
+  after: (FakePad | null)[]; // the pads once the first one's gone
+}
+
+// Pad 0 holds right on the d-pad, bounce and the stick, then...
+const cases: Case[] = [
+  { name: 'unplugged', after: [] },
+  { name: 'disconnected in place', after: [{ ...createPad(0), connected: false }] },
+  { name: 'swapped for another pad', after: [null, createPad(1)] },
+];
+
+let passed = true;
+for (const { name, after } of cases) {
+  const tracker = createGamepadTracker();
+  const actions = createActionState();
+
+  pads = [createPad(0, [0, 15], [0.9, 0])];
+  poll(tracker, actions);
+  const holding = actions.held.has('moveRight') && actions.held.has('bounce') && actions.analog.x !== 0;
+
+  pads = after;
+  poll(tracker, actions);
+  const released = actions.held.size === 0 && actions.analog.x === 0 && actions.analog.z === 0;
+
+  const ok = holding && released;
+  console.log(ok ? `ok   ${name}` : `FAIL ${name}: ${holding ? describe(actions) : 'the pad was never read'}`);
+  passed &&= ok;
+}
+
+if (!passed) {
+  process.exit(1);
+}
@@ -0,0 +1,227 @@
+// Checks the headless simulation still plays recorded runs out the same way.
+// Each fixture is a replay code with the result it gave when it was recorded,
+// and a hash of the ball's path - scores alone are too coarse to notice
+// physics drifting. Decoding and re-simulating it in Node has to give them again.
+//
+//   npm run check:replays            check every fixture
+//   npm run check:replays -- --record  play the bot runs again and print new fixtures
+//
+// Re-record only when the replay version has been bumped on purpose - a
+// fixture that fails otherwise means old replays have stopped reproducing.
+
+import { TICKS_PER_SECOND } from '../src/components/game/FixedTimestep';
+import { Difficulty } from '../src/components/game/Difficulty';
+import { InputAction, quantizeAxis } from '../src/components/game/InputActions';
+import { MapSource } from '../src/components/game/MapSource';
+import { campaignLevels } from '../src/components/game/Levels';
+import { hashString } from '../src/components/game/SeededRandom';
+import {
+  Replay,
+  advanceReplay,
+  createReplay,
+  createReplaySession,
+  decodeReplay,
+  encodeReplay,
+  recordActionEvent,
+  recordAxisEvent,
+  verifyReplay
+} from '../src/components/game/Replay';
+
+interface Fixture {
+  name: string;
+  code: string;
+  score: number;
+  courtTick: number | null;
+  ballPath: string; // hash of where the ball was every tick
+}
+
+// Recorded with --record
+const fixtures: Fixture[] = [
+  {
+    name: 'classic easy',
+    code: 'OBR9|c|20240601|e|ak|0+1,0+3,0+4,2-4,8q-3,1e-1,8+2,2-2',
+    score: 217,
+    courtTick: 320,
+    ballPath: '1waunjs'
+  },
+  {
+    name: 'classic medium',
+    code: 'OBR9|c|20240601|m|j5|0+1,0+3,0+4,2-4,fh-1,13+0,6-0,1t-3,g+2',
+    score: 266,
+    courtTick: 629,
+    ballPath: 'zrdpdx'
+  },
+  {
+    name: 'classic hard',
+    code: 'OBR9|c|20240601|h|i9|0+1,0+3,0+4,2-4,er-1,s+0,9-0,1q-3,d+2',
+    score: 280,
+    courtTick: 597,
+    ballPath: '1bz5rf7'
+  },
+  {
+    name: 'classic medium, stick',
+    code: 'OBR9|c|20240601|m|iz|0@x20,0@z20,0+4,2-4,d6@x19,5@x18,5@x17,4@x16,5@x15,5@x14,5@x13,6@x12,5@x11,6@x10,6@x9,7@x8,7@x7,7@x6,8@x5,a@x4,b@x3,e@x2,9@z19,3@z18,4@z17,4@x1,0@z16,4@z15,4@z14,5@z13,5@z12,6@z11,5@z10,7@z9,7@z8,8@z7,1@x0,9@z6',
+    score: 257,
+    courtTick: 623,
+    ballPath: 'xf86hf'
+  },
+  {
+    name: 'level first-bounce',
+    code: 'OBR9|lfirst-bounce|0|m|9e|0+2,0+4,2-4,8s-2,g+3',
+    score: 212,
+    courtTick: 278,
+    ballPath: '1njbr'
+  },
+  {
+    name: 'level nail-alley',
+    code: 'OBR9|lnail-alley|0|m|e0|0+2,0+4,2-4,de-2,h+3',
+    score: 234,
+    courtTick: 444,
+    ballPath: 'tbnzvb'
+  },
+  {
+    name: 'level around-the-block',
+    code: 'OBR9|laround-the-block|0|m|kn|0+2,0+4,2-4,bd+1,7-2,i+3,r-3,47+3,7-1,i+0,s-0,1k-3,h+2',
+    score: 271,
+    courtTick: 683,
+    ballPath: '1uz875j'
+  },
+  {
+    name: 'level rush-hour',
+    code: 'OBR9|lrush-hour|0|m|jk|0+0,0+2,0+4,2-4,ey-0,15+1,5-1,2q-2,g+3',
+    score: 271,
+    courtTick: 644,
+    ballPath: '1n9wff4'
+  },
+];
+
+interface BotRun {
+  name: string;
+  source: MapSource;
+  difficulty: Difficulty;
+  steering: 'keys' | 'stick';
+  route?: { x: number; z: number }[]; // corners to go round on the way, where straight at the court is blocked
+}
+
+// The court's behind a block, so up the side road and back along the far one
+const levelRoutes: Record<string, BotRun['route']> = {
+  'around-the-block': [{ x: 0, z: -60 }, { x: 30, z: -60 }],
+};
+
+const botRuns: BotRun[] = [
+  ...(['easy', 'medium', 'hard'] as Difficulty[]).map((difficulty): BotRun =>
+    ({ name: `classic ${difficulty}`, source: { mode: 'classic', seed: 20240601 }, difficulty, steering: 'keys' })),
+  { name: 'classic medium, stick', source: { mode: 'classic', seed: 20240601 }, difficulty: 'medium', steering: 'stick' },
+  ...campaignLevels.map((level): BotRun =>
+    ({ name: `level ${level.id}`, source: { mode: 'level', levelId: level.id }, difficulty: 'medium', steering: 'keys', route: levelRoutes[level.id] })),
+];
+
+const MAX_BOT_TICKS = 30 * TICKS_PER_SECOND;
+const ROUTE_REACH = 2; // close enough to a corner to turn for the next
+
+// Heads for the court, by way of the route's corners, bouncing whenever it's
+// held up, and stops a second after getting there
+function recordBotRun({ source, difficulty, steering, route = [] }: BotRun): Replay {
+  const replay = createReplay(source, difficulty);
+  replay.ticks = MAX_BOT_TICKS;
+  const session = createReplaySession(replay);
+  const { sim, world } = session;
+
+  const held = new Set<InputAction>();
+  const hold = (action: InputAction, down: boolean) => {
+    if (down === held.has(action)) return;
+    if (down) {
+      held.add(action);
+    } else {
+      held.delete(action);
+    }
+    recordActionEvent(replay, sim.tick, down ? 'down' : 'up', action);
+  };
+  const stick = { x: 0, z: 0 };
+
+  const targets = [...route, world.goalPosition];
+  let courtTick: number | null = null;
+  while (sim.tick < MAX_BOT_TICKS && (courtTick === null || sim.tick < courtTick + TICKS_PER_SECOND)) {
+    if (targets.length > 1 && Math.hypot(targets[0].x - sim.ball.position.x, targets[0].z - sim.ball.position.z) < ROUTE_REACH) {
+      targets.shift();
+    }
+    const dx = targets[0].x - sim.ball.position.x;
+    const dz = targets[0].z - sim.ball.position.z;
+
+    if (steering === 'keys') {
+      hold('moveRight', dx > 1);
+      hold('moveLeft', dx < -1);
+      hold('moveBack', dz > 1);
+      hold('moveForward', dz < -1);
+    } else {
+      for (const [axis, distance] of [['x', dx], ['z', dz]] as const) {
+        const value = quantizeAxis(Math.max(-1, Math.min(distance / 10, 1)));
+        if (value !== stick[axis]) {
+          stick[axis] = value;
+          recordAxisEvent(replay, sim.tick, axis, value);
+        }
+      }
+    }
+    hold('bounce', Math.hypot(sim.ball.velocity.x, sim.ball.velocity.z) < 0.05 && sim.tick % 30 < 2);
+
+    const events = advanceReplay(session, sim.tick + 1);
+    if (events.some(event => event.type === 'courtReached')) {
+      courtTick = sim.tick;
+    }
+  }
+
+  replay.ticks = sim.tick;
+  return replay;
+}
+
+function ballPath(replay: Replay): string {
+  const session = createReplaySession(replay);
+  const positions: string[] = [];
+
+  while (session.sim.tick < replay.ticks) {
+    advanceReplay(session, session.sim.tick + 1);
+    positions.push(session.sim.ball.position.toArray().map(value => value.toFixed(4)).join(','));
+  }
+  return hashString(positions.join(';')).toString(36);
+}
+
+function record() {
+  const recorded = botRuns.map((run): Fixture => {
+    const replay = recordBotRun(run);
+    const { score, courtTick } = verifyReplay(replay);
+    return { name: run.name, code: encodeReplay(replay), score, courtTick, ballPath: ballPath(replay) };
+  });
+
+  console.log(`const fixtures: Fixture[] = ${JSON.stringify(recorded, null, 2)};`);
+}
+
+function check(): boolean {
+  let passed = true;
+  for (const fixture of fixtures) {
+    const replay = decodeReplay(fixture.code);
+    if (!replay) {
+      console.log(`FAIL ${fixture.name}: the code no longer decodes`);
+      passed = false;
+      continue;
+    }
+
+    const result = verifyReplay(replay);
+    const path = ballPath(replay);
+    const problems = [
+      encodeReplay(replay) !== fixture.code && 'encodes differently',
+      result.score !== fixture.score && `score ${result.score}, recorded ${fixture.score}`,
+      result.courtTick !== fixture.courtTick && `court tick ${result.courtTick}, recorded ${fixture.courtTick}`,
+      path !== fixture.ballPath && 'the ball took a different path',
+    ].filter(Boolean);
+
+    console.log(problems.length === 0 ? `ok   ${fixture.name}` : `FAIL ${fixture.name}: ${problems.join(', ')}`);
+    passed &&= problems.length === 0;
+  }
+  return passed;
+}
+
+if (process.argv.includes('--record')) {
+  record();
+} else if (!check()) {
+  process.exit(1);
+}
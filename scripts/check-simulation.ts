@@ -0,0 +1,170 @@
+// Checks the headless simulation directly: small worlds built by hand, with
+// the ball driven into a nail, onto a roof, past a nail and onto the court,
+// and what each should have done to it.
+//
+//   npm run check:simulation
+
+import * as THREE from 'three';
+import { Difficulty, cityDifficulties } from '../src/components/game/Difficulty';
+import { scoreSettings } from '../src/components/game/ScoreSystem';
+import {
+  SimulationCommand,
+  SimulationEvent,
+  SimulationState,
+  WorldDescription,
+  WorldObstacle,
+  createSimulationState,
+  createWorld,
+  simulationSettings,
+  stepSimulation
+} from '../src/components/game/CitySimulation';
+
+const MAX_TICKS = 600;
+
+interface WorldOptions {
+  start?: THREE.Vector3;
+  goal?: THREE.Vector3;
+  buildings?: THREE.Box3[];
+  obstacles?: WorldObstacle[];
+  difficulty?: Difficulty;
+}
+
+// Nothing but what the check needs, with the court well out of the way unless it's wanted
+const createTestWorld = ({ start, goal, buildings = [], obstacles = [], difficulty = 'medium' }: WorldOptions): WorldDescription =>
+  createWorld({
+    buildings,
+    obstacles,
+    walkways: [],
+    pedestrians: [],
+    trafficDensity: 0,
+    surfaces: [],
+    platforms: [],
+    ramps: [],
+    coins: [],
+    powerUps: [],
+    difficulty,
+    startPosition: start ?? new THREE.Vector3(0, simulationSettings.ballRadius, 0),
+    goalPosition: goal ?? new THREE.Vector3(1000, 0.5, 1000)
+  });
+
+const createNail = (x: number, z: number): WorldObstacle => ({
+  type: 'nail',
+  dangerous: true,
+  bounds: new THREE.Box3(new THREE.Vector3(x - 0.3, 0, z - 0.3), new THREE.Vector3(x + 0.3, 0.3, z + 0.3)),
+});
+
+const rollRight: SimulationCommand[] = [{ type: 'move', axis: 'x', direction: 1 }];
+
+// Steps until something happens, or gives up. The commands go in on the first tick.
+function runUntil(
+  state: SimulationState,
+  world: WorldDescription,
+  commands: SimulationCommand[],
+  done: (events: SimulationEvent[]) => boolean
+): SimulationEvent[] {
+  const seen: SimulationEvent[] = [];
+  for (let tick = 0; tick < MAX_TICKS; tick++) {
+    const events = stepSimulation(state, world, tick === 0 ? commands : []);
+    seen.push(...events);
+    if (done(events)) break;
+  }
+  return seen;
+}
+
+const has = (events: SimulationEvent[], type: SimulationEvent['type']) => events.some(event => event.type === type);
+
+interface Check {
+  name: string;
+  run: () => string | null; // what went wrong, if anything
+}
+
+const checks: Check[] = [
+  {
+    name: 'a nail deflates the ball',
+    run: () => {
+      const nail = createNail(4, 0);
+      const world = createTestWorld({ obstacles: [nail] });
+      const state = createSimulationState(world);
+      const events = runUntil(state, world, rollRight, events => has(events, 'deflated'));
+
+      const deflated = events.find(event => event.type === 'deflated');
+      if (!deflated) return 'never deflated';
+      if (deflated.type === 'deflated' && deflated.obstacle !== nail) return 'deflated by something other than the nail';
+      if (!state.ball.deflated) return 'the ball is not marked deflated';
+      if (state.ball.radius >= state.ball.normalRadius) return `radius ${state.ball.radius}, it should shrink`;
+      return null;
+    },
+  },
+  {
+    name: 'the ball lands on a roof',
+    run: () => {
+      const roof = 10;
+      const building = new THREE.Box3(new THREE.Vector3(-5, 0, -5), new THREE.Vector3(5, roof, 5));
+      const world = createTestWorld({ start: new THREE.Vector3(0, roof + 4, 0), buildings: [building] });
+      const state = createSimulationState(world);
+      runUntil(state, world, [], () => state.ball.onGround);
+
+      const height = state.ball.position.y;
+      if (!state.ball.onGround) return 'never landed';
+      if (Math.abs(height - (roof + state.ball.radius)) > 0.01) return `landed at ${height.toFixed(3)}, not on the roof`;
+      if (state.ball.deflated) return 'a short drop deflated it';
+      return null;
+    },
+  },
+  {
+    name: 'rolling close past a nail is a near-miss',
+    run: () => {
+      // The ball passes 0.9 from the nail's side - inside the near-miss clearance, clear of the nail
+      const nail = createNail(4, 1.2);
+      const world = createTestWorld({ obstacles: [nail] });
+      const state = createSimulationState(world);
+      const events = runUntil(state, world, rollRight, () => state.ball.position.x > 10);
+
+      if (has(events, 'deflated')) return 'hit the nail';
+      const nearMisses = events.filter(event => event.type === 'nearMiss');
+      if (nearMisses.length !== 1) return `${nearMisses.length} near-misses, expected 1`;
+      if (state.score.breakdown.nearMisses !== scoreSettings.nearMissPoints) return `scored ${state.score.breakdown.nearMisses} for it`;
+      return null;
+    },
+  },
+  {
+    name: 'reaching the court finishes the run',
+    run: () => {
+      const world = createTestWorld({ goal: new THREE.Vector3(12, 0.5, 0) });
+      const state = createSimulationState(world);
+      const events = runUntil(state, world, rollRight, events => has(events, 'courtReached'));
+
+      if (!state.mazeCompleted) return 'never reached the court';
+      if (events.filter(event => event.type === 'courtReached').length !== 1) return 'reached it more than once';
+      if (state.score.breakdown.court !== scoreSettings.courtBonus) return `court bonus ${state.score.breakdown.court}`;
+      return null;
+    },
+  },
+  {
+    name: 'a deflated ball gets the smaller court bonus',
+    run: () => {
+      const difficulty: Difficulty = 'hard';
+      const world = createTestWorld({ goal: new THREE.Vector3(14, 0.5, 0), obstacles: [createNail(4, 0)], difficulty });
+      const state = createSimulationState(world);
+      const events = runUntil(state, world, rollRight, events => has(events, 'courtReached'));
+
+      const arrival = events.find(event => event.type === 'courtReached');
+      if (!arrival) return 'never reached the court';
+      if (arrival.type === 'courtReached' && !arrival.deflated) return 'arrived inflated';
+      const bonus = cityDifficulties[difficulty].deflatedCourtBonus;
+      if (state.score.breakdown.court !== bonus) return `court bonus ${state.score.breakdown.court}, expected ${bonus}`;
+      return null;
+    },
+  },
+];
+
+let passed = true;
+for (const { name, run } of checks) {
+  const problem = run();
+  console.log(problem === null ? `ok   ${name}` : `FAIL ${name}: ${problem}`);
+  passed &&= problem === null;
+}
+
+if (!passed) {
+  process.exit(1);
+}
@@ -1,82 +1,313 @@
 import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
 import * as THREE from 'three';
 import { toast } from '@/components/ui/use-toast';
+import { Input } from '@/components/ui/input';
+import { useIsTouchDevice } from '@/hooks/use-touch';
 import HighScoreDisplay from './game/HighScoreDisplay';
+import TimeTrialDisplay from './game/TimeTrialDisplay';
+import PowerUpDisplay from './game/PowerUpDisplay';
+import ScoreBreakdownDisplay from './game/ScoreBreakdownDisplay';
+import { ScoreBreakdown, createScoreState, getCourtBonus, scoreSettings } from './game/ScoreSystem';
+import {
+  HighScoreEntry,
+  addHighScore,
+  classicLeaderboardKey,
+  isTopScore,
+  loadHighScores,
+  saveHighScores
+} from './game/HighScoreStorage';
+import { getDailySeed } from './game/DailyChallenge';
 import GameBanner from './game/GameBanner';
+import DebugOverlay from './game/DebugOverlay';
+import { RenderStats, RenderStatsSampler, createRenderStatsSampler, sampleRenderStats } from './game/RenderStats';
+import { ResourceTracker, createResourceTracker, disposeTrackedResources, trackObject } from './game/ResourceTracker';
+import { createWorldDescription } from './game/CityGenerator';
+import { addCars, buildCityScene, createBallMesh, createGhostBallMesh } from './game/CityScene';
+import {
+  EntityStore,
+  EntityWith,
+  addBallEntity,
+  addCarEntities,
+  addCityEntities,
+  addCoinEntities,
+  addPickupEntities,
+  addPedestrianEntities,
+  audioSystem,
+  createEntityStore,
+  physicsSystem,
+  renderSystem
+} from './game/GameEntities';
+import {
+  MapSource,
+  createDailySource,
+  createLayoutForSource,
+  describeMapSource,
+  getScoreLeaderboardKey
+} from './game/MapSource';
+import LevelSelect from './game/LevelSelect';
+import DifficultySelect from './game/DifficultySelect';
+import { Difficulty, defaultDifficulty, difficultyLabels } from './game/Difficulty';
+import { getNextLevel } from './game/Levels';
+import { CampaignProgress, loadCampaignProgress, markLevelCompleted, saveCampaignProgress } from './game/CampaignProgress';
+import ControlsSettings from './game/ControlsSettings';
+import TouchControls from './game/TouchControls';
+import {
+  CameraRig,
+  cameraModeLabels,
+  createCameraRig,
+  cycleCameraMode,
+  loadCameraMode,
+  orbitCamera,
+  saveCameraMode,
+  updateCameraRig,
+  zoomCamera
+} from './game/CityCamera';
+import {
+  ActionState,
+  InputAction,
+  MoveAxis,
+  actionDownCommands,
+  actionUpCommands,
+  analogCommands,
+  createActionState
+} from './game/InputActions';
+import {
+  ControllerStyle,
+  GamepadTracker,
+  createGamepadTracker,
+  getActiveGamepad,
+  getControllerStyle,
+  pollGamepad,
+  rumble
+} from './game/Gamepads';
+import {
+  KeyBindings,
+  KeyTracker,
+  createKeyTracker,
+  describeBinding,
+  loadKeyBindings,
+  normalizeKey,
+  saveKeyBindings,
+  trackKey
+} from './game/InputBindings';
+import {
+  Replay,
+  ReplaySession,
+  advanceReplay,
+  createReplay,
+  createReplaySession,
+  encodeReplay,
+  isReplayableSource,
+  recordActionEvent,
+  recordAxisEvent,
+  ReplayResult,
+  continueReplayVerification,
+  startReplayVerification
+} from './game/Replay';
+import {
+  GhostRecord,
+  SplitTracker,
+  createSplitTracker,
+  decodeGhostReplay,
+  formatSplitDelta,
+  isFasterRun,
+  loadGhostRecord,
+  saveGhostRecord,
+  updateSplits
+} from './game/GhostRun';
+import {
+  GameRules,
+  Medal,
+  MedalThresholds,
+  TimeTrialEntry,
+  addTimeTrialTime,
+  formatRunTime,
+  getMedal,
+  getMedalThresholds,
+  getTimeTrialLeaderboardKey,
+  isLeaderboardTime,
+  loadTimeTrialTimes,
+  medalIcons,
+  saveTimeTrialTimes
+} from './game/TimeTrial';
+import { parseSeed, randomSeed } from './game/SeededRandom';
+import { FixedTimestepClock, TICKS_PER_SECOND, advanceClock, createFixedTimestepClock } from './game/FixedTimestep';
+import {
+  SimulationCommand,
+  SimulationEvent,
+  SimulationState,
+  WorldDescription,
+  createSimulationState,
+  createWorld,
+  stepSimulation
+} from './game/CitySimulation';
+import {
+  ActivePowerUp,
+  listActivePowerUps,
+  powerUpDescriptions,
+  powerUpIcons,
+  powerUpLabels
+} from './game/PowerUps';
+
+// Personal best run, replayed alongside the player - it only ever reads its own simulation
+interface Ghost {
+  record: GhostRecord;
+  session: ReplaySession;
+  entity: EntityWith<'render' | 'body'>;
+}
+
+interface SplitDisplay {
+  label: string;
+  time: string;
+  delta: string | null;
+  ahead: boolean;
+}
+
+// How long a split stays on screen
+const SPLIT_DISPLAY_TICKS = 3 * TICKS_PER_SECOND;
+
+// How long the run carries on after reaching the court, to celebrate
+const COURT_CELEBRATION_TICKS = 3 * TICKS_PER_SECOND;
+
+// Re-simulating a finished run gets this much of each frame, in slices of ticks
+const VERIFY_FRAME_BUDGET_MS = 8;
+const VERIFY_SLICE_TICKS = 60;
 
 interface GameState {
-  ball: {
-    position: THREE.Vector3;
-    velocity: THREE.Vector3;
-    radius: number;
-    normalRadius: number;
-    onGround: boolean;
-    jumpForce: number;
-    gravity: number;
-    consecutiveJumps: number;
-    lastJumpTime: number;
-    deflated: boolean;
-  };
-  obstacles: {
-    mesh: THREE.Mesh;
-    type: string;
-    dangerous: boolean;
-  }[];
-  buildings: THREE.Mesh[];
+  source: MapSource;
+  rules: GameRules;
+  difficulty: Difficulty; // of the current run, the picker may already show another
+  leaderboardKey: string;
+  medalThresholds: MedalThresholds;
+  replay: Replay;
+  actions: ActionState;
+  keys: KeyTracker;
+  bindings: KeyBindings;
+  gamepad: GamepadTracker;
+  controller: ControllerStyle | null; // the kind of pad last played with, null after the keyboard
+  sim: SimulationState;
+  world: WorldDescription;
+  pendingCommands: SimulationCommand[];
+  clock: FixedTimestepClock;
+  entities: EntityStore;
+  ball: EntityWith<'render' | 'body'> | null; // the player's ball
+  ghost: Ghost | null;
+  splits: SplitTracker;
+  splitShownTick: number;
+  powerUpsShown: string; // what the power-up HUD last showed, to redraw only on changes
+  courtTick: number | null;
   scene: THREE.Scene | null;
   camera: THREE.PerspectiveCamera | null;
-  renderer: THREE.WebGLRenderer | null;
-  score: number;
-  gameSpeed: number;
-  jumpPressed: boolean;
-  leftPressed: boolean;
-  rightPressed: boolean;
+  cameraRig: CameraRig;
+  renderer: THREE.WebGLRenderer | null; // shared by every session until unmount
+  resources: ResourceTracker; // everything the current session uploaded to the GPU
+  sessions: number;
   animationId: number;
+  verifyFrame: number; // pending slice of the finished run's verification, 0 for none
   gameOver: boolean;
-  goalPosition: THREE.Vector3;
-  mazeCompleted: boolean;
+  pausedFor: 'difficulty' | 'menu' | null; // what's in front of the city while it's drawn but doesn't move
+  showDebug: boolean;
+  renderStats: RenderStatsSampler;
 }
 
-const OrangeBall3DGame: React.FC = () => {
+// Toggles the draw call and frame rate overlay
+const DEBUG_OVERLAY_KEY = '`';
+
+const emptyWorld = (): WorldDescription => createWorld({
+  buildings: [],
+  obstacles: [],
+  walkways: [],
+  pedestrians: [],
+  trafficDensity: 0,
+  surfaces: [],
+  platforms: [],
+  ramps: [],
+  coins: [],
+  powerUps: [],
+  difficulty: defaultDifficulty,
+  startPosition: new THREE.Vector3(0, 1, 0),
+  goalPosition: new THREE.Vector3(60, 0.5, 60)
+});
+
+interface OrangeBall3DGameProps {
+  initialSource?: MapSource; // defaults to a random city
+  onExit?: () => void; // shows a button to leave, e.g. back to the level editor
+}
+
+const OrangeBall3DGame: React.FC<OrangeBall3DGameProps> = ({ initialSource, onExit }) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const [gameOver, setGameOver] = useState(false);
   const [score, setScore] = useState(0);
   const [finalScore, setFinalScore] = useState(0);
-  const [highScores, setHighScores] = useState<{name: string, score: number}[]>([]);
+  const [highScores, setHighScores] = useState<HighScoreEntry[]>([]);
   const [isNewHighScore, setIsNewHighScore] = useState(false);
   const [playerName, setPlayerName] = useState('');
   const [mazeCompleted, setMazeCompleted] = useState(false);
+  const [source, setSource] = useState<MapSource>({ mode: 'classic', seed: 0 });
+  const [seedInput, setSeedInput] = useState('');
+  const [replayCode, setReplayCode] = useState('');
+  const [splitDisplay, setSplitDisplay] = useState<SplitDisplay | null>(null);
+  const [rules, setRules] = useState<GameRules>('score');
+  const [medalThresholds, setMedalThresholds] = useState<MedalThresholds>({ gold: 0, silver: 0, bronze: 0 });
+  const [runTicks, setRunTicks] = useState(0);
+  const [finishTicks, setFinishTicks] = useState<number | null>(null);
+  const [medal, setMedal] = useState<Medal | null>(null);
+  const [times, setTimes] = useState<TimeTrialEntry[]>([]);
+  const [isNewTime, setIsNewTime] = useState(false);
+  const [campaignProgress, setCampaignProgress] = useState<CampaignProgress>(loadCampaignProgress());
+  const [showLevelSelect, setShowLevelSelect] = useState(false);
+  const [scoreBreakdown, setScoreBreakdown] = useState<ScoreBreakdown>(createScoreState().breakdown);
+  const [showDebug, setShowDebug] = useState(false);
+  const [renderStats, setRenderStats] = useState<RenderStats | null>(null);
+  const [activePowerUps, setActivePowerUps] = useState<ActivePowerUp[]>([]);
+  const [difficulty, setDifficulty] = useState<Difficulty>(defaultDifficulty);
+  const [showDifficultySelect, setShowDifficultySelect] = useState(true);
+  const [showPauseMenu, setShowPauseMenu] = useState(false);
+  const [showControls, setShowControls] = useState(false);
+  const [bindings, setBindings] = useState<KeyBindings>(loadKeyBindings());
+  const [controller, setController] = useState<ControllerStyle | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const isTouch = useIsTouchDevice();
   
   const gameStateRef = useRef<GameState>({
-    ball: {
-      position: new THREE.Vector3(0, 1, 0),
-      velocity: new THREE.Vector3(0, 0, 0),
-      radius: 0.5,
-      normalRadius: 0.5,
-      onGround: true,
-      jumpForce: 0.3,
-      gravity: 0.015,
-      consecutiveJumps: 0,
-      lastJumpTime: 0,
-      deflated: false
-    },
-    obstacles: [],
-    buildings: [],
+    source: { mode: 'classic', seed: 0 },
+    rules: 'score',
+    difficulty: defaultDifficulty,
+    leaderboardKey: classicLeaderboardKey,
+    medalThresholds: { gold: 0, silver: 0, bronze: 0 },
+    replay: createReplay({ mode: 'classic', seed: 0 }, defaultDifficulty),
+    actions: createActionState(),
+    keys: createKeyTracker(),
+    bindings: loadKeyBindings(),
+    gamepad: createGamepadTracker(),
+    controller: null,
+    sim: createSimulationState(emptyWorld()),
+    world: emptyWorld(),
+    pendingCommands: [],
+    clock: createFixedTimestepClock(),
+    entities: createEntityStore(),
+    ball: null,
+    ghost: null,
+    splits: createSplitTracker(emptyWorld()),
+    splitShownTick: -1,
+    powerUpsShown: '',
+    courtTick: null,
     scene: null,
     camera: null,
+    cameraRig: createCameraRig(loadCameraMode()),
     renderer: null,
-    score: 0,
-    gameSpeed: 0.1,
-    jumpPressed: false,
-    leftPressed: false,
-    rightPressed: false,
+    resources: createResourceTracker(),
+    sessions: 0,
     animationId: 0,
+    verifyFrame: 0,
     gameOver: false,
-    goalPosition: new THREE.Vector3(60, 0.5, 60),
-    mazeCompleted: false
+    pausedFor: 'difficulty',
+    showDebug: false,
+    renderStats: createRenderStatsSampler()
   });
 
-  const initGame = () => {
+  const initGame = (source: MapSource, rules: GameRules, difficulty: Difficulty) => {
     if (!mountRef.current) return;
     
     // Initialize THREE.js scene
@@ -101,1136 +332,428 @@ const OrangeBall3DGame: React.FC = () => {
     camera.position.set(0, 15, 25);
     camera.lookAt(0, 1, 0);
     
-    // Setup renderer
-    const renderer = new THREE.WebGLRenderer({ antialias: true });
-    renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.shadowMap.enabled = true;
-    mountRef.current.appendChild(renderer.domElement);
-    
-    // Create ground - city streets
-    const groundGeometry = new THREE.PlaneGeometry(200, 200);
-    const groundMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0x333333, // Dark asphalt
-      roughness: 0.8, 
-      metalness: 0.2
-    });
-    const ground = new THREE.Mesh(groundGeometry, groundMaterial);
-    ground.rotation.x = -Math.PI / 2;
-    ground.position.y = 0;
-    ground.receiveShadow = true;
-    scene.add(ground);
+    // Setup renderer - once, later sessions draw with the same one
+    let { renderer } = gameStateRef.current;
+    if (!renderer) {
+      renderer = new THREE.WebGLRenderer({ antialias: true });
+      renderer.setSize(window.innerWidth, window.innerHeight);
+      renderer.shadowMap.enabled = true;
+      mountRef.current.appendChild(renderer.domElement);
+    }
     
-    // Create roads
-    createRoads(scene);
+    // Generate the city from its seed, busier or quieter with the difficulty
+    const layout = createLayoutForSource(source, difficulty);
     
     // Create ball - make it look like a basketball
-    const ballGeometry = new THREE.SphereGeometry(gameStateRef.current.ball.radius, 32, 32);
-    const ballTexture = createBasketballTexture();
-    const ballMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0xFF7700, // Orange basketball color
-      roughness: 0.6,
-      metalness: 0.1,
-      map: ballTexture
-    });
-    
-    const ball = new THREE.Mesh(ballGeometry, ballMaterial);
-    ball.position.copy(gameStateRef.current.ball.position);
-    ball.castShadow = true;
-    ball.receiveShadow = true;
-    scene.add(ball);
-    
-    // Create a skybox
-    const skyGeometry = new THREE.BoxGeometry(500, 500, 500);
-    const skyMaterials = [
-      new THREE.MeshBasicMaterial({ color: 0x87CEEB, side: THREE.BackSide }), // right
-      new THREE.MeshBasicMaterial({ color: 0x87CEEB, side: THREE.BackSide }), // left
-      new THREE.MeshBasicMaterial({ color: 0x4682B4, side: THREE.BackSide }), // top
-      new THREE.MeshBasicMaterial({ color: 0x8B4513, side: THREE.BackSide }), // bottom
-      new THREE.MeshBasicMaterial({ color: 0x87CEEB, side: THREE.BackSide }), // front
-      new THREE.MeshBasicMaterial({ color: 0x87CEEB, side: THREE.BackSide })  // back
-    ];
-    const skybox = new THREE.Mesh(skyGeometry, skyMaterials);
-    scene.add(skybox);
-    
-    // Add clouds for decoration
-    addClouds(scene);
-    
-    // Create city buildings
-    const buildings = createCityscape(scene);
-    gameStateRef.current.buildings = buildings;
-    
-    // Create dangerous obstacles (nails, spikes)
-    createObstacles(scene);
-
-    // Add trees to the city
-    addTrees(scene);
-
-    // Add people walking around
-    addPeople(scene);
+    const ballMesh = createBallMesh(0.5, false);
+    ballMesh.position.set(layout.start.x, layout.start.y, layout.start.z);
+    scene.add(ballMesh);
     
-    // Create basketball court (goal)
-    createBasketballCourt(scene);
+    // Ground, roads, buildings, obstacles, trees, people and the court
+    const cityObjects = buildCityScene(scene, layout);
     
     // Store objects in gameState
     gameStateRef.current.scene = scene;
     gameStateRef.current.camera = camera;
+    gameStateRef.current.cameraRig.snap = true;
     gameStateRef.current.renderer = renderer;
-    
-    // Reset game state
-    gameStateRef.current.obstacles = [];
-    gameStateRef.current.score = 0;
-    gameStateRef.current.ball.position = new THREE.Vector3(0, 1, 0);
-    gameStateRef.current.ball.velocity = new THREE.Vector3(0, 0, 0);
-    gameStateRef.current.mazeCompleted = false;
-    gameStateRef.current.ball.deflated = false;
-    
-    // Load high scores
-    try {
-      const savedScores = localStorage.getItem('orangeBallHighScores');
-      if (savedScores) {
-        setHighScores(JSON.parse(savedScores));
-      }
-    } catch (e) {
-      console.log("Could not load high scores:", e);
+    gameStateRef.current.sessions++;
+    gameStateRef.current.pendingCommands = [];
+    gameStateRef.current.actions = createActionState();
+    gameStateRef.current.replay = createReplay(source, difficulty);
+    gameStateRef.current.clock = createFixedTimestepClock();
+    
+    // Describe the city to the simulation and start a fresh run
+    gameStateRef.current.world = createWorldDescription(layout, difficulty);
+    gameStateRef.current.sim = createSimulationState(gameStateRef.current.world);
+    
+    // Tie the simulation's bodies to what draws them
+    const entities = createEntityStore();
+    addCityEntities(entities, gameStateRef.current.world, cityObjects);
+    addPedestrianEntities(entities, gameStateRef.current.sim.pedestrians, cityObjects.people);
+    addCoinEntities(entities, gameStateRef.current.sim.coins, cityObjects.coins);
+    addPickupEntities(entities, gameStateRef.current.sim.pickups, cityObjects.pickups);
+    
+    // How many cars there are depends on the traffic density, so they come after the simulation
+    const { cars } = gameStateRef.current.sim.traffic;
+    addCarEntities(entities, cars, addCars(scene, cars.length));
+    gameStateRef.current.entities = entities;
+    gameStateRef.current.ball = addBallEntity(entities, 'ball', gameStateRef.current.sim.ball, ballMesh);
+    gameStateRef.current.splits = createSplitTracker(gameStateRef.current.world);
+    gameStateRef.current.splitShownTick = -1;
+    gameStateRef.current.powerUpsShown = '';
+    gameStateRef.current.courtTick = null;
+    
+    // Race the personal best on this map, if there is one
+    gameStateRef.current.ghost = createGhost(scene, entities, source, gameStateRef.current.world);
+    
+    // Everything in the scene now belongs to this session
+    trackObject(gameStateRef.current.resources, scene);
+    
+    gameStateRef.current.source = source;
+    gameStateRef.current.rules = rules;
+    gameStateRef.current.difficulty = difficulty;
+    setSource(source);
+    setRules(rules);
+    setDifficulty(difficulty);
+    
+    const medalThresholds = getMedalThresholds(gameStateRef.current.world);
+    gameStateRef.current.medalThresholds = medalThresholds;
+    setMedalThresholds(medalThresholds);
+    
+    if (rules === 'timeTrial') {
+      // Times rank per map and difficulty
+      const leaderboardKey = getTimeTrialLeaderboardKey(source, difficulty);
+      gameStateRef.current.leaderboardKey = leaderboardKey;
+      setTimes(loadTimeTrialTimes(leaderboardKey));
+    } else {
+      // Daily runs and levels rank on their own leaderboards, each difficulty too
+      const leaderboardKey = getScoreLeaderboardKey(source, difficulty);
+      gameStateRef.current.leaderboardKey = leaderboardKey;
+      
+      // Load high scores
+      setHighScores(loadHighScores(leaderboardKey));
     }
   };
 
-  const createBasketballTexture = (): THREE.Texture => {
-    // Create a canvas to draw the basketball texture
-    const canvas = document.createElement('canvas');
-    canvas.width = 512;
-    canvas.height = 512;
-    const context = canvas.getContext('2d');
-    
-    if (context) {
-      // Fill background with orange
-      context.fillStyle = '#FF7700';
-      context.fillRect(0, 0, 512, 512);
-      
-      // Draw basketball lines
-      context.strokeStyle = '#000000';
-      context.lineWidth = 5;
-      
-      // Horizontal center line
-      context.beginPath();
-      context.moveTo(0, 256);
-      context.lineTo(512, 256);
-      context.stroke();
-      
-      // Vertical center line
-      context.beginPath();
-      context.moveTo(256, 0);
-      context.lineTo(256, 512);
-      context.stroke();
-      
-      // Draw curved lines for the basketball
-      context.beginPath();
-      context.arc(256, 256, 150, 0, Math.PI, false);
-      context.stroke();
-      
-      context.beginPath();
-      context.arc(256, 256, 150, Math.PI, Math.PI * 2, false);
-      context.stroke();
-
-      // Draw more realistic basketball texture
-      context.beginPath();
-      context.arc(256, 256, 200, Math.PI / 4, Math.PI + Math.PI / 4, false);
-      context.stroke();
-
-      context.beginPath();
-      context.arc(256, 256, 200, Math.PI + Math.PI / 4, Math.PI * 2 + Math.PI / 4, false);
-      context.stroke();
-    }
-    
-    const texture = new THREE.CanvasTexture(canvas);
-    return texture;
+  const createGhost = (
+    scene: THREE.Scene,
+    entities: EntityStore,
+    source: MapSource,
+    world: WorldDescription
+  ): Ghost | null => {
+    const record = loadGhostRecord(source, world.difficulty);
+    const replay = record && decodeGhostReplay(record, source, world.difficulty);
+    
+    if (!record || !replay) return null;
+    
+    const session = createReplaySession(replay, world);
+    const mesh = createGhostBallMesh(session.sim.ball.radius, false);
+    mesh.position.copy(session.sim.ball.position);
+    scene.add(mesh);
+    
+    return { record, session, entity: addBallEntity(entities, 'ghost', session.sim.ball, mesh) };
   };
-  
-  const createRoads = (scene: THREE.Scene) => {
-    // Create horizontal and vertical roads through the city
-    const roadMaterial = new THREE.MeshStandardMaterial({
-      color: 0x444444, // Darker asphalt for roads
-      roughness: 0.7,
-      metalness: 0.3
+
+  const showSplit = (label: string, tick: number, ghostTick: number | null | undefined) => {
+    const hasGhostTime = ghostTick !== null && ghostTick !== undefined;
+    
+    setSplitDisplay({
+      label,
+      time: formatRunTime(tick),
+      delta: hasGhostTime ? formatSplitDelta(tick - ghostTick) : null,
+      ahead: hasGhostTime && tick <= ghostTick
     });
+    gameStateRef.current.splitShownTick = tick;
+  };
+
+  const completeLevel = (levelId: string) => {
+    // Read it back from storage, this runs from the game loop's closure
+    const progress = loadCampaignProgress();
+    const updatedProgress = markLevelCompleted(progress, levelId);
     
-    // Horizontal roads
-    for (let i = -80; i <= 80; i += 40) {
-      const roadGeometry = new THREE.PlaneGeometry(180, 10);
-      const road = new THREE.Mesh(roadGeometry, roadMaterial);
-      road.rotation.x = -Math.PI / 2;
-      road.position.set(0, 0.01, i); // Slightly above ground
-      road.receiveShadow = true;
-      scene.add(road);
+    if (updatedProgress !== progress) {
+      saveCampaignProgress(updatedProgress);
+      setCampaignProgress(updatedProgress);
       
-      // Add white road lines
-      const lineGeometry = new THREE.PlaneGeometry(180, 0.5);
-      const lineMaterial = new THREE.MeshBasicMaterial({
-        color: 0xFFFFFF
+      const nextLevel = getNextLevel(levelId);
+      toast({
+        title: "Level complete!",
+        description: nextLevel ? `${nextLevel.name} is now unlocked` : "You've beaten the whole campaign!",
+        duration: 3000,
       });
-      
-      const line = new THREE.Mesh(lineGeometry, lineMaterial);
-      line.rotation.x = -Math.PI / 2;
-      line.position.set(0, 0.02, i); // Slightly above road
-      scene.add(line);
     }
+  };
+
+  const handleKey = (type: 'down' | 'up', key: string) => {
+    const gameState = gameStateRef.current;
+    const change = trackKey(gameState.keys, gameState.bindings, type, key);
     
-    // Vertical roads
-    for (let i = -80; i <= 80; i += 40) {
-      const roadGeometry = new THREE.PlaneGeometry(10, 180);
-      const road = new THREE.Mesh(roadGeometry, roadMaterial);
-      road.rotation.x = -Math.PI / 2;
-      road.position.set(i, 0.01, 0); // Slightly above ground
-      road.receiveShadow = true;
-      scene.add(road);
-      
-      // Add white road lines
-      const lineGeometry = new THREE.PlaneGeometry(0.5, 180);
-      const lineMaterial = new THREE.MeshBasicMaterial({
-        color: 0xFFFFFF
-      });
-      
-      const line = new THREE.Mesh(lineGeometry, lineMaterial);
-      line.rotation.x = -Math.PI / 2;
-      line.position.set(i, 0.02, 0); // Slightly above road
-      scene.add(line);
+    if (change) {
+      showController(null);
+      handleAction(change.type, change.action);
     }
   };
-  
-  const createCityscape = (scene: THREE.Scene): THREE.Mesh[] => {
-    const buildings: THREE.Mesh[] = [];
-    const buildingColors = [
-      0x555555, // Dark gray
-      0x666666, // Medium gray
-      0x777777, // Light gray
-      0x888888, // Silver
-      0x444444, // Charcoal
-    ];
-    
-    // City layout - more random and open compared to maze
-    // Create buildings along streets
-    for (let i = 0; i < 40; i++) {
-      // Random building dimensions
-      const width = 3 + Math.random() * 5;
-      const height = 5 + Math.random() * 20;
-      const depth = 3 + Math.random() * 5;
-      
-      // Random position with some spacing between buildings
-      let x = 0, z = 0;
-      let validPosition = false;
-      
-      // Try to find a valid position that doesn't overlap with other buildings
-      while (!validPosition) {
-        x = (Math.random() - 0.5) * 150;
-        z = (Math.random() - 0.5) * 150;
-        
-        // Skip positions too close to start or basketball court
-        if (Math.abs(x) < 10 && Math.abs(z) < 10) continue;
-        if (Math.abs(x - gameStateRef.current.goalPosition.x) < 15 && 
-            Math.abs(z - gameStateRef.current.goalPosition.z) < 15) continue;
-        
-        validPosition = true;
-        
-        // Check distance from existing buildings
-        for (const building of buildings) {
-          const dx = Math.abs(building.position.x - x);
-          const dz = Math.abs(building.position.z - z);
-          
-          // If too close, try a new position
-          if (dx < 8 && dz < 8) {
-            validPosition = false;
-            break;
-          }
-        }
-      }
-      
-      // Create building
-      const buildingGeometry = new THREE.BoxGeometry(width, height, depth);
-      const randomColorIndex = Math.floor(Math.random() * buildingColors.length);
-      const buildingColor = buildingColors[randomColorIndex];
-      
-      const buildingMaterial = new THREE.MeshStandardMaterial({
-        color: buildingColor,
-        roughness: 0.7,
-        metalness: 0.2
-      });
-      
-      const building = new THREE.Mesh(buildingGeometry, buildingMaterial);
-      building.position.set(x, height / 2, z);
-      building.castShadow = true;
-      building.receiveShadow = true;
-      
-      // Add windows
-      addWindowsToBuilding(scene, building, width, height, depth);
-      
-      scene.add(building);
-      buildings.push(building);
+
+  // Gamepads don't send events, so they're read once a frame
+  const pollController = () => {
+    const gameState = gameStateRef.current;
+    const poll = pollGamepad(gameState.gamepad);
+    
+    for (const change of poll.changes) {
+      handleAction(change.type, change.action);
+    }
+    for (const { axis, value } of poll.moves) {
+      handleAxis(axis, value);
     }
     
-    return buildings;
+    const gamepad = poll.active ? getActiveGamepad(gameState.gamepad) : null;
+    if (gamepad) {
+      showController(getControllerStyle(gamepad));
+    }
   };
-  
-  const addWindowsToBuilding = (
-    scene: THREE.Scene, 
-    building: THREE.Mesh, 
-    width: number, 
-    height: number, 
-    depth: number
-  ) => {
-    // Window size and spacing
-    const windowSize = 0.5;
-    const windowSpacingH = 1.2;
-    const windowSpacingV = 1.5;
-    
-    // Window material - glowing blue at night
-    const windowMaterial = new THREE.MeshBasicMaterial({
-      color: 0x88CCFF,
-      transparent: true,
-      opacity: 0.8
-    });
-    
-    // Calculate number of windows based on building dimensions
-    const windowsPerFloor = {
-      x: Math.floor(width / windowSpacingH) - 1,
-      z: Math.floor(depth / windowSpacingH) - 1
-    };
-    
-    const floors = Math.floor(height / windowSpacingV) - 1;
+
+  const showController = (style: ControllerStyle | null) => {
+    if (gameStateRef.current.controller !== style) {
+      gameStateRef.current.controller = style;
+      setController(style);
+    }
+  };
+
+  const handleAxis = (axis: MoveAxis, value: number) => {
+    const gameState = gameStateRef.current;
     
-    // Position of the building
-    const bx = building.position.x;
-    const by = building.position.y;
-    const bz = building.position.z;
+    // Centring the stick still counts while paused, like letting go of a key
+    if (gameState.gameOver || value === gameState.actions.analog[axis] ||
+        (value !== 0 && gameState.pausedFor)) return;
     
-    // Add windows on each face of the building
-    for (let floor = 0; floor < floors; floor++) {
-      const y = -height/2 + windowSpacingV + floor * windowSpacingV;
-      
-      // Windows on X faces (front and back)
-      for (let wx = 0; wx < windowsPerFloor.x; wx++) {
-        const x = -width/2 + windowSpacingH + wx * windowSpacingH;
-        
-        // Front face
-        const windowGeometryFront = new THREE.PlaneGeometry(windowSize, windowSize);
-        const windowFront = new THREE.Mesh(windowGeometryFront, windowMaterial);
-        windowFront.position.set(bx + x, by + y, bz + depth/2 + 0.01);
-        scene.add(windowFront);
-        
-        // Back face
-        const windowGeometryBack = new THREE.PlaneGeometry(windowSize, windowSize);
-        const windowBack = new THREE.Mesh(windowGeometryBack, windowMaterial);
-        windowBack.position.set(bx + x, by + y, bz - depth/2 - 0.01);
-        windowBack.rotation.y = Math.PI;
-        scene.add(windowBack);
-      }
-      
-      // Windows on Z faces (left and right)
-      for (let wz = 0; wz < windowsPerFloor.z; wz++) {
-        const z = -depth/2 + windowSpacingH + wz * windowSpacingH;
-        
-        // Right face
-        const windowGeometryRight = new THREE.PlaneGeometry(windowSize, windowSize);
-        const windowRight = new THREE.Mesh(windowGeometryRight, windowMaterial);
-        windowRight.position.set(bx + width/2 + 0.01, by + y, bz + z);
-        windowRight.rotation.y = -Math.PI / 2;
-        scene.add(windowRight);
-        
-        // Left face
-        const windowGeometryLeft = new THREE.PlaneGeometry(windowSize, windowSize);
-        const windowLeft = new THREE.Mesh(windowGeometryLeft, windowMaterial);
-        windowLeft.position.set(bx - width/2 - 0.01, by + y, bz + z);
-        windowLeft.rotation.y = Math.PI / 2;
-        scene.add(windowLeft);
-      }
-    }
+    recordAxisEvent(gameState.replay, gameState.sim.tick, axis, value);
+    gameState.pendingCommands.push(...analogCommands(gameState.actions, axis, value));
   };
-  
-  const addTrees = (scene: THREE.Scene) => {
-    // Add trees around the city for decoration
-    for (let i = 0; i < 30; i++) {
-      // Find a valid position away from buildings, start, and goal
-      let x = 0, z = 0;
-      let validPosition = false;
-      
-      while (!validPosition) {
-        x = (Math.random() - 0.5) * 160;
-        z = (Math.random() - 0.5) * 160;
-        
-        // Avoid trees near the start
-        if (Math.abs(x) < 10 && Math.abs(z) < 10) continue;
-        
-        // Avoid trees near the basketball court (goal)
-        if (Math.abs(x - gameStateRef.current.goalPosition.x) < 20 && 
-            Math.abs(z - gameStateRef.current.goalPosition.z) < 20) continue;
-        
-        validPosition = true;
-        
-        // Check distance from buildings
-        for (const building of gameStateRef.current.buildings) {
-          const dx = Math.abs(building.position.x - x);
-          const dz = Math.abs(building.position.z - z);
-          const buildingWidth = (building.geometry as THREE.BoxGeometry).parameters.width;
-          const buildingDepth = (building.geometry as THREE.BoxGeometry).parameters.depth;
-          
-          // If inside or too close to a building, try a new position
-          if (dx < buildingWidth/2 + 3 && dz < buildingDepth/2 + 3) {
-            validPosition = false;
-            break;
-          }
-        }
-      }
-      
-      // Create tree trunk
-      const trunkGeometry = new THREE.CylinderGeometry(0.3, 0.4, 2, 8);
-      const trunkMaterial = new THREE.MeshStandardMaterial({
-        color: 0x8B4513, // Brown
-        roughness: 0.8,
-        metalness: 0.2
-      });
-      const trunk = new THREE.Mesh(trunkGeometry, trunkMaterial);
-      trunk.position.set(x, 1, z);
-      trunk.castShadow = true;
-      trunk.receiveShadow = true;
-      scene.add(trunk);
-      
-      // Create tree leaves/foliage (conical or spherical shape)
-      const treeType = Math.random() > 0.5 ? 'conical' : 'spherical';
-      
-      if (treeType === 'conical') {
-        // Pine tree
-        const leavesGeometry = new THREE.ConeGeometry(1.5, 4, 8);
-        const leavesMaterial = new THREE.MeshStandardMaterial({
-          color: 0x2E8B57, // Dark green
-          roughness: 0.8,
-          metalness: 0.1
-        });
-        const leaves = new THREE.Mesh(leavesGeometry, leavesMaterial);
-        leaves.position.set(x, 4, z);
-        leaves.castShadow = true;
-        leaves.receiveShadow = true;
-        scene.add(leaves);
-      } else {
-        // Deciduous tree
-        const leavesGeometry = new THREE.SphereGeometry(1.5, 8, 8);
-        const leavesMaterial = new THREE.MeshStandardMaterial({
-          color: 0x32CD32, // Light green
-          roughness: 0.8,
-          metalness: 0.1
-        });
-        const leaves = new THREE.Mesh(leavesGeometry, leavesMaterial);
-        leaves.position.set(x, 3.5, z);
-        leaves.castShadow = true;
-        leaves.receiveShadow = true;
-        scene.add(leaves);
+
+  // Stick moves are dropped while paused but still tracked, so play picks up
+  // from wherever it's pushed now rather than where it was before
+  const resumeStick = () => {
+    const { stick } = gameStateRef.current.gamepad;
+    
+    for (const axis of ['x', 'z'] as MoveAxis[]) {
+      if (stick[axis] !== 0) {
+        handleAxis(axis, stick[axis]);
       }
-      
-      // Add tree to obstacles array as non-dangerous obstacle
-      const obstacleGroup = new THREE.Group();
-      obstacleGroup.position.set(x, 0, z);
-      scene.add(obstacleGroup);
-      
-      gameStateRef.current.obstacles.push({
-        mesh: obstacleGroup,
-        type: 'tree',
-        dangerous: false
-      });
     }
   };
-  
-  const addPeople = (scene: THREE.Scene) => {
-    // Add people walking around the city as obstacles
-    for (let i = 0; i < 20; i++) {
-      // Find a valid position on the roads
-      let x = 0, z = 0;
-      
-      // Position people along the roads
-      if (Math.random() > 0.5) {
-        // Horizontal roads
-        x = (Math.random() - 0.5) * 150;
-        z = Math.floor(Math.random() * 5 - 2) * 40 + (Math.random() * 6 - 3);
-      } else {
-        // Vertical roads
-        x = Math.floor(Math.random() * 5 - 2) * 40 + (Math.random() * 6 - 3);
-        z = (Math.random() - 0.5) * 150;
-      }
-      
-      // Create simple person model
-      const personGroup = new THREE.Group();
-      
-      // Body
-      const bodyGeometry = new THREE.CylinderGeometry(0.2, 0.3, 1, 8);
-      const bodyMaterial = new THREE.MeshStandardMaterial({
-        color: Math.random() > 0.5 ? 0x3366CC : 0xCC6633, // Random blue or brown
-        roughness: 0.8,
-        metalness: 0.2
-      });
-      const body = new THREE.Mesh(bodyGeometry, bodyMaterial);
-      body.position.y = 0.6;
-      personGroup.add(body);
-      
-      // Head
-      const headGeometry = new THREE.SphereGeometry(0.2, 16, 16);
-      const headMaterial = new THREE.MeshStandardMaterial({
-        color: 0xFFD700, // Tan
-        roughness: 0.8,
-        metalness: 0.1
-      });
-      const head = new THREE.Mesh(headGeometry, headMaterial);
-      head.position.y = 1.3;
-      personGroup.add(head);
-      
-      // Position the person
-      personGroup.position.set(x, 0, z);
-      personGroup.castShadow = true;
-      personGroup.receiveShadow = true;
-      scene.add(personGroup);
-      
-      // Add person to obstacles array as non-dangerous obstacle
-      gameStateRef.current.obstacles.push({
-        mesh: personGroup,
-        type: 'person',
-        dangerous: false
-      });
-    }
-  };
-  
-  const createObstacles = (scene: THREE.Scene) => {
-    const obstacles = gameStateRef.current.obstacles;
-    
-    // Create nail/spike obstacles that will deflate the ball
-    for (let i = 0; i < 30; i++) {
-      // Find a valid position away from start and goal
-      let x = 0, z = 0;
-      let validPosition = false;
-      
-      while (!validPosition) {
-        x = (Math.random() - 0.5) * 140;
-        z = (Math.random() - 0.5) * 140;
-        
-        // Avoid obstacles near the start
-        if (Math.abs(x) < 10 && Math.abs(z) < 10) continue;
-        
-        // Avoid obstacles near the basketball court (goal)
-        if (Math.abs(x - gameStateRef.current.goalPosition.x) < 20 && 
-            Math.abs(z - gameStateRef.current.goalPosition.z) < 20) continue;
-        
-        validPosition = true;
-        
-        // Check distance from buildings
-        for (const building of gameStateRef.current.buildings) {
-          const dx = Math.abs(building.position.x - x);
-          const dz = Math.abs(building.position.z - z);
-          const buildingWidth = (building.geometry as THREE.BoxGeometry).parameters.width;
-          const buildingDepth = (building.geometry as THREE.BoxGeometry).parameters.depth;
-          
-          // If inside or too close to a building, try a new position
-          if (dx < buildingWidth/2 + 2 && dz < buildingDepth/2 + 2) {
-            validPosition = false;
-            break;
-          }
-        }
+
+  const handleAction = (type: 'down' | 'up', action: InputAction) => {
+    const gameState = gameStateRef.current;
+    
+    if (action === 'pause') {
+      if (type === 'down') {
+        togglePause();
       }
-      
-      // Create nail/spike - cone shape pointing up
-      const nailGeometry = new THREE.ConeGeometry(0.3, 1, 8);
-      const nailMaterial = new THREE.MeshStandardMaterial({
-        color: 0xAAAAAA, // Steel gray
-        roughness: 0.3,
-        metalness: 0.8
-      });
-      
-      const nail = new THREE.Mesh(nailGeometry, nailMaterial);
-      nail.position.set(x, 0.5, z); // Position slightly above ground
-      nail.rotation.x = Math.PI; // Point upward
-      nail.castShadow = true;
-      
-      scene.add(nail);
-      
-      // Add to obstacles array
-      obstacles.push({
-        mesh: nail,
-        type: 'nail',
-        dangerous: true
-      });
+      return;
     }
     
-    // Add fire hydrants as additional obstacles
-    for (let i = 0; i < 15; i++) {
-      // Find a valid position near sidewalks
-      let x = 0, z = 0;
-      let validPosition = false;
-      
-      while (!validPosition) {
-        // Position near roads but offset a bit
-        if (Math.random() > 0.5) {
-          x = Math.floor(Math.random() * 5 - 2) * 40 + (Math.random() > 0.5 ? 6 : -6);
-          z = (Math.random() - 0.5) * 140;
-        } else {
-          x = (Math.random() - 0.5) * 140;
-          z = Math.floor(Math.random() * 5 - 2) * 40 + (Math.random() > 0.5 ? 6 : -6);
-        }
-        
-        // Avoid obstacles near the start or goal
-        if (Math.abs(x) < 10 && Math.abs(z) < 10) continue;
-        if (Math.abs(x - gameStateRef.current.goalPosition.x) < 20 && 
-            Math.abs(z - gameStateRef.current.goalPosition.z) < 20) continue;
-        
-        validPosition = true;
+    // Only changes the view, so it's not part of the run
+    if (action === 'camera') {
+      if (type === 'down' && !gameState.gameOver) {
+        changeCameraMode();
       }
-      
-      // Create fire hydrant
-      const hydrantGroup = new THREE.Group();
-      
-      // Main body
-      const bodyGeometry = new THREE.CylinderGeometry(0.3, 0.3, 1, 8);
-      const bodyMaterial = new THREE.MeshStandardMaterial({
-        color: 0xFF0000, // Red
-        roughness: 0.7,
-        metalness: 0.3
-      });
-      const body = new THREE.Mesh(bodyGeometry, bodyMaterial);
-      body.position.y = 0.5;
-      hydrantGroup.add(body);
-      
-      // Top cap
-      const capGeometry = new THREE.CylinderGeometry(0.35, 0.35, 0.2, 8);
-      const capMaterial = new THREE.MeshStandardMaterial({
-        color: 0xDDDDDD, // Silver
-        roughness: 0.5,
-        metalness: 0.8
-      });
-      const cap = new THREE.Mesh(capGeometry, capMaterial);
-      cap.position.y = 1.1;
-      hydrantGroup.add(cap);
-      
-      // Side nozzles
-      const nozzleGeometry = new THREE.CylinderGeometry(0.1, 0.1, 0.3, 8);
-      const nozzleMaterial = capMaterial;
-      
-      const nozzle1 = new THREE.Mesh(nozzleGeometry, nozzleMaterial);
-      nozzle1.rotation.z = Math.PI / 2;
-      nozzle1.position.set(0.3, 0.8, 0);
-      hydrantGroup.add(nozzle1);
-      
-      const nozzle2 = new THREE.Mesh(nozzleGeometry, nozzleMaterial);
-      nozzle2.rotation.x = Math.PI / 2;
-      nozzle2.position.set(0, 0.8, 0.3);
-      hydrantGroup.add(nozzle2);
-      
-      // Position the hydrant
-      hydrantGroup.position.set(x, 0, z);
-      hydrantGroup.castShadow = true;
-      scene.add(hydrantGroup);
-      
-      // Add to obstacles array as non-dangerous obstacle
-      obstacles.push({
-        mesh: hydrantGroup,
-        type: 'hydrant',
-        dangerous: false
-      });
+      return;
     }
-  };
-  
-  const createBasketballCourt = (scene: THREE.Scene) => {
-    const { goalPosition } = gameStateRef.current;
-    
-    // Court floor - orange/brown hardwood
-    const courtGeometry = new THREE.PlaneGeometry(15, 15);
-    const courtMaterial = new THREE.MeshStandardMaterial({
-      color: 0xCD853F, // Basketball court color
-      roughness: 0.8,
-      metalness: 0.1
-    });
     
-    const court = new THREE.Mesh(courtGeometry, courtMaterial);
-    court.rotation.x = -Math.PI / 2;
-    court.position.set(goalPosition.x, 0.01, goalPosition.z); // Slightly above ground
-    court.receiveShadow = true;
-    scene.add(court);
+    // Letting go still counts while paused, so nothing stays held
+    if (gameState.gameOver || (type === 'down' && gameState.pausedFor)) return;
     
-    // Court markings - white lines
-    const lineGeometry = new THREE.PlaneGeometry(14, 0.1);
-    const lineMaterial = new THREE.MeshBasicMaterial({ color: 0xFFFFFF });
+    // Commands queued now are applied on the next tick, so record them against it
+    recordActionEvent(gameState.replay, gameState.sim.tick, type, action);
     
-    // Outer boundary lines
-    for (let i = 0; i < 4; i++) {
-      const line = new THREE.Mesh(i % 2 === 0 ? lineGeometry : new THREE.PlaneGeometry(0.1, 14));
-      line.rotation.x = -Math.PI / 2;
-      
-      switch(i) {
-        case 0: // Top
-          line.position.set(goalPosition.x, 0.02, goalPosition.z - 7);
+    const commands = type === 'down'
+      ? actionDownCommands(gameState.actions, action)
+      : actionUpCommands(gameState.actions, action);
+    gameState.pendingCommands.push(...commands);
+  };
+
+  const handleSimulationEvents = (events: SimulationEvent[]) => {
+    for (const event of events) {
+      switch (event.type) {
+        case 'bounce':
+          if (event.level >= 2) {
+            toast({
+              title: `Power Bounce Level ${event.level}!`,
+              description: "Reaching higher altitudes",
+              duration: 1000,
+            });
+          }
+          break;
+        case 'bounceBlocked':
+          toast({
+            title: "Ball is deflated!",
+            description: "Find a new ball to continue",
+            variant: "destructive",
+            duration: 2000,
+          });
+          break;
+        case 'deflated':
+          if (event.obstacle?.type === 'nail') {
+            rumble(gameStateRef.current.gamepad);
+          }
+          toast({
+            title: event.obstacle ? "Ouch! Ball deflated!" : "Splat! That was a long way down",
+            description: "Your movement is now slower. Try to reach the basketball court!",
+            variant: "destructive",
+            duration: 3000,
+          });
+          break;
+        case 'coinCollected':
+          toast({
+            title: "Rooftop coin!",
+            description: `+${scoreSettings.coinPoints} points`,
+            duration: 1000,
+          });
+          break;
+        case 'powerUpCollected':
+          toast({
+            title: `${powerUpIcons[event.powerUp]} ${powerUpLabels[event.powerUp]}!`,
+            description: powerUpDescriptions[event.powerUp],
+            duration: 1500,
+          });
           break;
-        case 1: // Right
-          line.position.set(goalPosition.x + 7, 0.02, goalPosition.z);
+        case 'powerUpExpired':
+          toast({
+            title: `${powerUpLabels[event.powerUp]} wore off`,
+            duration: 1000,
+          });
           break;
-        case 2: // Bottom
-          line.position.set(goalPosition.x, 0.02, goalPosition.z + 7);
+        case 'carHit':
+          // Popping also deflates, and that event has its own toast
+          if (!event.popped) {
+            toast({
+              title: "Watch the traffic!",
+              description: "Knocked back by a car",
+              duration: 1000,
+            });
+          }
           break;
-        case 3: // Left
-          line.position.set(goalPosition.x - 7, 0.02, goalPosition.z);
+        case 'nearMiss':
+          toast({
+            title: "Close call!",
+            description: `Dodged a nail +${scoreSettings.nearMissPoints} points`,
+            duration: 1000,
+          });
+          break;
+        case 'courtReached':
+          setMazeCompleted(true);
+          
+          // The finish is the last split
+          gameStateRef.current.courtTick = gameStateRef.current.sim.tick;
+          showSplit('Finish', gameStateRef.current.sim.tick, gameStateRef.current.ghost?.record.courtTick);
+          
+          if (gameStateRef.current.source.mode === 'level') {
+            completeLevel(gameStateRef.current.source.levelId);
+          }
+          
+          toast({
+            title: "Basketball Court Reached!",
+            description: gameStateRef.current.sim.ball.deflated 
+              ? `You made it even with a deflated ball! +${getCourtBonus(event.deflated, gameStateRef.current.difficulty)} points` 
+              : `Perfect! You made it with an intact ball! +${getCourtBonus(event.deflated, gameStateRef.current.difficulty)} points`,
+            variant: "default",
+            duration: 3000,
+          });
           break;
       }
-      
-      scene.add(line);
     }
-    
-    // Basketball hoop and backboard
-    const backboardGeometry = new THREE.BoxGeometry(4, 3, 0.2);
-    const backboardMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0xFFFFFF,
-      roughness: 0.9,
-      metalness: 0.1
-    });
-    
-    const backboard = new THREE.Mesh(backboardGeometry, backboardMaterial);
-    backboard.position.set(goalPosition.x, 5, goalPosition.z - 7);
-    backboard.castShadow = true;
-    scene.add(backboard);
-    
-    // Red target box on backboard
-    const targetGeometry = new THREE.BoxGeometry(1, 0.8, 0.21);
-    const targetMaterial = new THREE.MeshStandardMaterial({ color: 0xFF0000 });
-    const target = new THREE.Mesh(targetGeometry, targetMaterial);
-    target.position.set(goalPosition.x, 5, goalPosition.z - 7.05);
-    scene.add(target);
-    
-    // Hoop
-    const hoopGeometry = new THREE.TorusGeometry(0.7, 0.05, 16, 32);
-    const hoopMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0xFF4500,
-      metalness: 0.8,
-      roughness: 0.3
-    });
-    
-    const hoop = new THREE.Mesh(hoopGeometry, hoopMaterial);
-    hoop.position.set(goalPosition.x, 3.5, goalPosition.z - 5.8);
-    hoop.rotation.x = Math.PI / 2;
-    hoop.castShadow = true;
-    scene.add(hoop);
-    
-    // Pole
-    const poleGeometry = new THREE.CylinderGeometry(0.1, 0.1, 5, 8);
-    const poleMaterial = new THREE.MeshStandardMaterial({
-      color: 0x888888,
-      metalness: 0.8,
-      roughness: 0.2
-    });
-    
-    const pole = new THREE.Mesh(poleGeometry, poleMaterial);
-    pole.position.set(goalPosition.x, 2.5, goalPosition.z - 7);
-    pole.castShadow = true;
-    scene.add(pole);
   };
   
-  const addClouds = (scene: THREE.Scene) => {
-    const cloudGeometry = new THREE.SphereGeometry(1, 16, 16);
-    const cloudMaterial = new THREE.MeshStandardMaterial({ 
-      color: 0xffffff,
-      transparent: true,
-      opacity: 0.8
-    });
+  const gameLoop = (time: number = performance.now()) => {
+    const gameState = gameStateRef.current;
     
-    // Add a few clouds at different positions
-    for (let i = 0; i < 5; i++) {
-      const cloudGroup = new THREE.Group();
+    if (!gameState.gameOver) {
+      pollController();
       
-      // Create random cloud shapes by combining spheres
-      const numSpheres = 3 + Math.floor(Math.random() * 3);
-      for (let j = 0; j < numSpheres; j++) {
-        const sphere = new THREE.Mesh(cloudGeometry, cloudMaterial);
-        sphere.position.set(
-          (Math.random() - 0.5) * 2,
-          (Math.random() - 0.5) * 0.5,
-          (Math.random() - 0.5) * 2
-        );
-        sphere.scale.set(
-          0.5 + Math.random() * 0.5,
-          0.5 + Math.random() * 0.3,
-          0.5 + Math.random() * 0.5
-        );
-        cloudGroup.add(sphere);
+      // Run as many fixed ticks as the elapsed time calls for, then draw.
+      // The clock keeps running while paused, so there's no backlog of ticks after.
+      const { steps, alpha } = advanceClock(gameState.clock, time);
+      for (let i = 0; i < steps && !gameState.pausedFor && !gameState.gameOver; i++) {
+        update();
       }
+      render(alpha, time);
       
-      // Position the cloud group randomly in the sky
-      cloudGroup.position.set(
-        (Math.random() - 0.5) * 40,
-        10 + Math.random() * 5,
-        (Math.random() - 0.5) * 20 - 15
-      );
-      
-      scene.add(cloudGroup);
+      // The run can end on any of those ticks
+      if (!gameState.gameOver) {
+        gameState.animationId = requestAnimationFrame(gameLoop);
+      }
     }
   };
 
-  const bounce = () => {
-    const { ball } = gameStateRef.current;
-    
-    // If ball is deflated, don't allow bouncing
-    if (ball.deflated) {
-      toast({
-        title: "Ball is deflated!",
-        description: "Find a new ball to continue",
-        variant: "destructive",
-        duration: 2000,
-      });
-      return;
-    }
-    
-    const currentTime = Date.now();
+  const update = () => {
+    const gameState = gameStateRef.current;
+    const commands = gameState.pendingCommands;
+    gameState.pendingCommands = [];
     
-    if (ball.onGround) {
-      ball.consecutiveJumps = 1;
-      ball.lastJumpTime = currentTime;
-      
-      ball.velocity.y = ball.jumpForce;
-      ball.onGround = false;
-      
-      // Play bounce sound effect
-      playBounceSound(1);
-    } else {
-      const timeSinceLastJump = currentTime - ball.lastJumpTime;
+    const previousScore = gameState.sim.score.total;
+    const events = physicsSystem(gameState.entities, () => {
+      const tickEvents = stepSimulation(gameState.sim, gameState.world, commands);
       
-      if (timeSinceLastJump < 300 && ball.consecutiveJumps < 3) {
-        ball.consecutiveJumps++;
-        ball.lastJumpTime = currentTime;
-        
-        const powerMultiplier = 1 + (ball.consecutiveJumps * 0.2);
-        ball.velocity.y = ball.jumpForce * powerMultiplier;
-        
-        // Play higher-pitched bounce sound for power bounces
-        playBounceSound(ball.consecutiveJumps);
-        
-        const powerLevel = ball.consecutiveJumps;
-        if (powerLevel >= 2) {
-          toast({
-            title: `Power Bounce Level ${powerLevel}!`,
-            description: "Reaching higher altitudes",
-            duration: 1000,
-          });
-        }
+      // Keep the ghost on the same tick as the player
+      if (gameState.ghost) {
+        advanceReplay(gameState.ghost.session, gameState.sim.tick);
       }
+      return tickEvents;
+    });
+    audioSystem(gameState.entities, events);
+    handleSimulationEvents(events);
+    
+    if (gameState.sim.score.total !== previousScore) {
+      setScore(gameState.sim.score.total);
     }
-  };
-  
-  const playBounceSound = (level: number) => {
-    // Simple simulation of a bounce sound using Web Audio API
-    try {
-      const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const oscillator = audioCtx.createOscillator();
-      const gainNode = audioCtx.createGain();
-      
-      oscillator.type = 'sine';
-      oscillator.frequency.value = 150 + (level * 30); // Higher pitch for power bounces
-      
-      gainNode.gain.value = 0.3;
-      gainNode.gain.exponentialRampToValueAtTime(0.001, audioCtx.currentTime + 0.3);
-      
-      oscillator.connect(gainNode);
-      gainNode.connect(audioCtx.destination);
-      
-      oscillator.start();
-      oscillator.stop(audioCtx.currentTime + 0.3);
-    } catch (e) {
-      // Fallback if Web Audio API is not available
-      console.log("Audio not supported");
-    }
-  };
-
-  const moveLeft = () => {
-    if (!gameStateRef.current.ball.deflated) {
-      gameStateRef.current.ball.velocity.x = -0.15;
-    } else {
-      gameStateRef.current.ball.velocity.x = -0.05; // Slower when deflated
-    }
-  };
-
-  const moveRight = () => {
-    if (!gameStateRef.current.ball.deflated) {
-      gameStateRef.current.ball.velocity.x = 0.15;
-    } else {
-      gameStateRef.current.ball.velocity.x = 0.05; // Slower when deflated
+    
+    // The run timer stops at the court, and only needs redrawing every tenth of a second
+    if (gameState.rules === 'timeTrial' && gameState.courtTick === null &&
+        gameState.sim.tick % (TICKS_PER_SECOND / 10) === 0) {
+      setRunTicks(gameState.sim.tick);
     }
     
-    // Increase score when moving
-    gameStateRef.current.score++;
-    setScore(Math.floor(gameStateRef.current.score/10));
-  };
-  
-  const moveForward = () => {
-    if (!gameStateRef.current.ball.deflated) {
-      gameStateRef.current.ball.velocity.z = -0.15;
-    } else {
-      gameStateRef.current.ball.velocity.z = -0.05; // Slower when deflated
+    // Countdowns only change once a second
+    const powerUps = listActivePowerUps(gameState.sim);
+    const powerUpsShown = powerUps.map(({ type, secondsLeft }) => `${type}:${secondsLeft}`).join(',');
+    if (powerUpsShown !== gameState.powerUpsShown) {
+      gameState.powerUpsShown = powerUpsShown;
+      setActivePowerUps(powerUps);
     }
-  };
-  
-  const moveBackward = () => {
-    if (!gameStateRef.current.ball.deflated) {
-      gameStateRef.current.ball.velocity.z = 0.15;
-    } else {
-      gameStateRef.current.ball.velocity.z = 0.05; // Slower when deflated
+    
+    const split = updateSplits(gameState.splits, gameState.sim, gameState.world);
+    if (split !== null) {
+      showSplit(`Split ${split + 1}`, gameState.sim.tick, gameState.ghost?.record.splits[split]);
+    } else if (gameState.splitShownTick >= 0 && gameState.sim.tick - gameState.splitShownTick > SPLIT_DISPLAY_TICKS) {
+      gameState.splitShownTick = -1;
+      setSplitDisplay(null);
     }
-  };
-
-  const stopHorizontalMovement = () => {
-    gameStateRef.current.ball.velocity.x = 0;
-    gameStateRef.current.ball.velocity.z = 0;
-  };
-
-  const gameLoop = () => {
-    const gameState = gameStateRef.current;
     
-    if (!gameState.gameOver) {
-      update();
-      render();
-      gameState.animationId = requestAnimationFrame(gameLoop);
+    // Counted in ticks rather than on a timer, so it belongs to this run and waits while paused
+    if (gameState.courtTick !== null && gameState.sim.tick >= gameState.courtTick + COURT_CELEBRATION_TICKS) {
+      endGame();
     }
   };
-
-  const update = () => {
-    updateBall();
-    updateCamera();
-    checkCollisions();
-    checkBasketballCourtReached();
-  };
   
-  const updateCamera = () => {
-    const { camera, ball } = gameStateRef.current;
-    
-    if (!camera) return;
+  const changeCameraMode = () => {
+    const mode = cycleCameraMode(gameStateRef.current.cameraRig);
+    saveCameraMode(mode);
     
-    // Make camera follow the ball at a distance
-    const cameraOffset = new THREE.Vector3(0, 8, 15);
-    camera.position.x = ball.position.x + cameraOffset.x;
-    camera.position.y = ball.position.y + cameraOffset.y;
-    camera.position.z = ball.position.z + cameraOffset.z;
-    
-    // Camera always looks at the ball
-    camera.lookAt(ball.position);
+    toast({
+      title: `Camera: ${cameraModeLabels[mode]}`,
+      description: mode === 'orbit' ? "Drag to look around the ball, scroll to zoom" : undefined,
+      duration: 1500,
+    });
   };
 
-  const updateBall = () => {
-    const { ball, scene } = gameStateRef.current;
-    
-    if (!scene) return;
-    
-    // Apply gravity
-    ball.velocity.y -= ball.gravity;
+  const render = (alpha: number, time: number) => {
+    const { renderer, scene, camera, cameraRig, entities, resources, ball, sim, world, showDebug } = gameStateRef.current;
     
-    // Update position
-    ball.position.x += ball.velocity.x;
-    ball.position.y += ball.velocity.y;
-    ball.position.z += ball.velocity.z;
-    
-    // Ground collision
-    if (ball.position.y - ball.radius < 0) {
-      ball.position.y = ball.radius;
-      ball.velocity.y = 0;
-      ball.onGround = true;
-    } else {
-      ball.onGround = false;
+    // Draw the balls between the last two ticks so motion stays smooth at any refresh rate
+    renderSystem(entities, resources, alpha);
+    if (ball && camera) {
+      updateCameraRig(cameraRig, camera, ball.render.object.position, sim.ball.velocity, world, time);
     }
     
-    // Update ball mesh position
-    const ballMesh = scene.children.find(
-      child => child instanceof THREE.Mesh && 
-      child.geometry instanceof THREE.SphereGeometry
-    ) as THREE.Mesh;
-    
-    if (ballMesh) {
-      ballMesh.position.copy(ball.position);
-      
-      // Check if ball size or state changed (deflated)
-      if (Math.abs(ball.radius - (ballMesh.geometry as THREE.SphereGeometry).parameters.radius) > 0.01 || 
-          (ball.deflated && ballMesh.material instanceof THREE.MeshStandardMaterial && 
-           ballMesh.material.color.getHex() === 0xFF7700)) {
-        
-        scene.remove(ballMesh);
-        
-        // Create new ball with updated appearance
-        const newBallGeometry = new THREE.SphereGeometry(ball.radius, 32, 32);
-        const newBallMaterial = new THREE.MeshStandardMaterial({ 
-          color: ball.deflated ? 0xBB5500 : 0xFF7700, // Darker when deflated
-          roughness: ball.deflated ? 0.9 : 0.4,
-          metalness: ball.deflated ? 0.1 : 0.2
-        });
-        
-        const newBall = new THREE.Mesh(newBallGeometry, newBallMaterial);
-        newBall.position.copy(ball.position);
-        newBall.castShadow = true;
-        newBall.receiveShadow = true;
-        
-        // Add flat parts to deflated ball
-        if (ball.deflated) {
-          // Make the ball look slightly flattened
-          newBall.scale.y = 0.6;
-        }
-        
-        scene.add(newBall);
-      }
-    }
-    
-    // Reset consecutive jumps if falling
-    if (ball.velocity.y < 0 && !ball.onGround) {
-      ball.consecutiveJumps = 0;
-    }
-  };
-
-  const checkCollisions = () => {
-    const { ball, buildings, obstacles, scene } = gameStateRef.current;
-    
-    if (!scene) return;
-    
-    // Check building collisions
-    for (const building of buildings) {
-      const buildingBoundingBox = new THREE.Box3().setFromObject(building);
-      const ballPosition = new THREE.Vector3(ball.position.x, ball.position.y, ball.position.z);
-      
-      // Check if ball is colliding with building
-      if (isColliding(ballPosition, ball.radius, buildingBoundingBox)) {
-        // Handle collision - move the ball back and stop velocity
-        const closestPoint = new THREE.Vector3();
-        buildingBoundingBox.clampPoint(ballPosition, closestPoint);
-        
-        const penetrationVector = new THREE.Vector3().subVectors(ballPosition, closestPoint);
-        const penetrationDepth = ball.radius - penetrationVector.length();
-        
-        if (penetrationDepth > 0) {
-          // Normalize the penetration vector
-          penetrationVector.normalize();
-          
-          // Move the ball out of the building
-          ball.position.x += penetrationVector.x * penetrationDepth;
-          ball.position.z += penetrationVector.z * penetrationDepth;
-          
-          // Vertical collision
-          if (Math.abs(penetrationVector.y) > 0.7) {
-            if (penetrationVector.y > 0) {
-              // Ball is on top of building
-              ball.velocity.y = 0;
-              ball.onGround = true;
-            } else {
-              // Ball hit ceiling
-              ball.velocity.y = -0.01;
-            }
-          } else {
-            // Horizontal collision - bounce slightly off buildings
-            if (Math.abs(penetrationVector.x) > Math.abs(penetrationVector.z)) {
-              ball.velocity.x = -ball.velocity.x * 0.4;
-            } else {
-              ball.velocity.z = -ball.velocity.z * 0.4;
-            }
-          }
-        }
-      }
-    }
-    
-    // Check dangerous obstacle collisions (nails)
-    checkObstacleCollisions();
-  };
-  
-  const checkObstacleCollisions = () => {
-    const { ball, obstacles } = gameStateRef.current;
-    
-    for (const obstacle of obstacles) {
-      const obstacleBoundingBox = new THREE.Box3().setFromObject(obstacle.mesh);
-      const ballPosition = new THREE.Vector3(ball.position.x, ball.position.y, ball.position.z);
+    if (renderer && scene && camera) {
+      renderer.render(scene, camera);
       
-      // Check if ball is colliding with the obstacle
-      if (isColliding(ballPosition, ball.radius, obstacleBoundingBox)) {
-        // If it's a dangerous obstacle like a nail and the ball isn't already deflated
-        if (obstacle.dangerous && !ball.deflated) {
-          // Ball hits nail - deflate the ball
-          ball.deflated = true;
-          
-          // Reduce the ball size slightly when deflated
-          ball.radius = ball.normalRadius * 0.8;
-          
-          // Show deflated message
-          toast({
-            title: "Ouch! Ball deflated!",
-            description: "Your movement is now slower. Try to reach the basketball court!",
-            variant: "destructive",
-            duration: 3000,
-          });
-        } else if (!obstacle.dangerous) {
-          // For non-dangerous obstacles like trees or people, just bounce off them
-          // Find the direction to bounce
-          const closestPoint = new THREE.Vector3();
-          obstacleBoundingBox.clampPoint(ballPosition, closestPoint);
-          
-          const bounceDirection = new THREE.Vector3().subVectors(ballPosition, closestPoint).normalize();
-          
-          // Apply a small bounce
-          ball.position.x += bounceDirection.x * 0.2;
-          ball.position.z += bounceDirection.z * 0.2;
-          
-          // Reverse velocity slightly in that direction
-          ball.velocity.x = bounceDirection.x * 0.1;
-          ball.velocity.z = bounceDirection.z * 0.1;
+      if (showDebug) {
+        const stats = sampleRenderStats(gameStateRef.current.renderStats, renderer, performance.now());
+        if (stats) {
+          setRenderStats(stats);
         }
       }
     }
   };
   
-  const isColliding = (
-    ballPosition: THREE.Vector3, 
-    ballRadius: number, 
-    box: THREE.Box3
-  ): boolean => {
-    // Find the closest point on the box to the ball
-    const closestPoint = new THREE.Vector3();
-    box.clampPoint(ballPosition, closestPoint);
-    
-    // Calculate the distance from the closest point to the ball center
-    const distance = ballPosition.distanceTo(closestPoint);
-    
-    // If the distance is less than the ball radius, there's a collision
-    return distance < ballRadius;
-  };
-  
-  const checkBasketballCourtReached = () => {
-    const { ball, goalPosition, mazeCompleted } = gameStateRef.current;
-    
-    if (mazeCompleted) return;
-    
-    // Distance to basketball court center
-    const distance = new THREE.Vector3().subVectors(ball.position, goalPosition).length();
-    
-    // If the ball is on the basketball court
-    if (distance < 7) { // Court radius is about 7.5 units
-      // Player reached the goal
-      gameStateRef.current.mazeCompleted = true;
-      setMazeCompleted(true);
-      
-      // Add bonus score
-      const bonusPoints = ball.deflated ? 250 : 500; // Half points if deflated
-      gameStateRef.current.score += bonusPoints;
-      setScore(Math.floor(gameStateRef.current.score/10));
-      
-      toast({
-        title: "Basketball Court Reached!",
-        description: ball.deflated 
-          ? `You made it even with a deflated ball! +${bonusPoints} points` 
-          : `Perfect! You made it with an intact ball! +${bonusPoints} points`,
-        variant: "default",
-        duration: 3000,
-      });
-      
-      // End game after a short delay to show celebration
-      setTimeout(() => {
-        endGame();
-      }, 3000);
-    }
-  };
-
-  const render = () => {
-    const { renderer, scene, camera } = gameStateRef.current;
-    
-    if (renderer && scene && camera) {
-      renderer.render(scene, camera);
-    }
+  const toggleDebugOverlay = () => {
+    const gameState = gameStateRef.current;
+    gameState.showDebug = !gameState.showDebug;
+    gameState.renderStats = createRenderStatsSampler();
+    setShowDebug(gameState.showDebug);
+    setRenderStats(null);
   };
 
   const endGame = () => {
@@ -1243,48 +766,104 @@ const OrangeBall3DGame: React.FC = () => {
       gameState.animationId = 0;
     }
     
-    const finalScore = Math.floor(gameState.score/10);
+    const finalScore = gameState.sim.score.total;
     setFinalScore(finalScore);
+    setScoreBreakdown({ ...gameState.sim.score.breakdown });
     
-    toast({
-      title: gameState.mazeCompleted ? "City Challenge Completed!" : "Game Over!",
-      description: `Your score: ${finalScore}`,
-      variant: gameState.mazeCompleted ? "default" : "destructive",
-    });
+    const { courtTick } = gameState;
+    const runMedal = courtTick !== null ? getMedal(gameState.medalThresholds, courtTick) : null;
+    setFinishTicks(courtTick);
+    setMedal(runMedal);
     
-    let newHighScore = false;
+    if (gameState.rules === 'timeTrial') {
+      toast({
+        title: courtTick !== null ? `Court reached in ${formatRunTime(courtTick)}!` : "Game Over!",
+        description: runMedal ? `${medalIcons[runMedal]} You earned ${runMedal}!` : "No medal this time",
+        variant: courtTick !== null ? "default" : "destructive",
+      });
+    } else {
+      toast({
+        title: gameState.sim.mazeCompleted ? "City Challenge Completed!" : "Game Over!",
+        description: `Your score: ${finalScore}`,
+        variant: gameState.sim.mazeCompleted ? "default" : "destructive",
+      });
+    }
     
-    if (finalScore > 0) {
-      if (highScores.length === 0) {
-        newHighScore = true;
+    // Seal the replay and re-simulate it - only a run that reproduces its score can rank.
+    // A long run takes seconds to go over again, so it's done a slice per frame.
+    gameState.replay.ticks = gameState.sim.tick;
+    const code = isReplayableSource(gameState.source) ? encodeReplay(gameState.replay) : '';
+    setReplayCode(code);
+    setVerifying(true);
+    
+    const verification = startReplayVerification(gameState.replay);
+    const verifySlice = () => {
+      const deadline = performance.now() + VERIFY_FRAME_BUDGET_MS;
+      let verified: ReplayResult | null = null;
+      while (!verified && performance.now() < deadline) {
+        verified = continueReplayVerification(verification, VERIFY_SLICE_TICKS);
+      }
+      
+      if (verified) {
+        gameState.verifyFrame = 0;
+        setVerifying(false);
+        rankRun(verified, code, finalScore, courtTick);
       } else {
-        const sortedScores = [...highScores].sort((a, b) => b.score - a.score).slice(0, 10);
-        
-        newHighScore = finalScore > sortedScores[0].score;
+        gameState.verifyFrame = requestAnimationFrame(verifySlice);
+      }
+    };
+    gameState.verifyFrame = requestAnimationFrame(verifySlice);
+  };
+
+  // The verified end of endGame - a new session cancels it, so this is still the run that ended
+  const rankRun = (verified: ReplayResult, code: string, finalScore: number, courtTick: number | null) => {
+    const gameState = gameStateRef.current;
+    
+    if (verified.score !== finalScore || verified.courtTick !== courtTick) {
+      toast({
+        title: "Run could not be verified",
+        description: "The replay doesn't reproduce this run, so it won't be ranked",
+        variant: "destructive",
+      });
+      setIsNewHighScore(false);
+      setIsNewTime(false);
+      return;
+    }
+    
+    // Fastest verified run to the court becomes the ghost for this map
+    if (code && verified.mazeCompleted && courtTick !== null && isFasterRun(loadGhostRecord(gameState.source, gameState.difficulty), courtTick)) {
+      if (saveGhostRecord(gameState.source, gameState.difficulty, { replay: code, courtTick, splits: gameState.splits.splits })) {
+        toast({
+          title: "New personal best!",
+          description: `Reached the court in ${formatRunTime(courtTick)} - your ghost will race you next time`,
+        });
       }
     }
     
-    setIsNewHighScore(newHighScore);
+    // Read the list back from storage, this runs from the game loop's closure
+    if (gameState.rules === 'timeTrial') {
+      setIsNewTime(courtTick !== null && isLeaderboardTime(loadTimeTrialTimes(gameState.leaderboardKey), courtTick));
+    } else {
+      setIsNewHighScore(isTopScore(loadHighScores(gameState.leaderboardKey), finalScore));
+    }
   };
 
   const saveHighScore = () => {
     if (!playerName.trim()) return;
     
-    const newScore = { name: playerName.trim(), score: finalScore };
-    const updatedScores = [...highScores, newScore].sort((a, b) => b.score - a.score).slice(0, 10);
+    const newScore = { name: playerName.trim(), score: finalScore, replay: replayCode };
+    const updatedScores = addHighScore(highScores, newScore);
     
     setHighScores(updatedScores);
     setPlayerName('');
     setIsNewHighScore(false);
     
-    try {
-      localStorage.setItem('orangeBallHighScores', JSON.stringify(updatedScores));
+    if (saveHighScores(gameStateRef.current.leaderboardKey, updatedScores)) {
       toast({
         title: "High score saved!",
         description: `${playerName.trim()}: ${finalScore} points`,
       });
-    } catch (e) {
-      console.log("Could not save high scores:", e);
+    } else {
       toast({
         title: "Error saving score",
         description: "Could not save your high score",
@@ -1293,92 +872,180 @@ const OrangeBall3DGame: React.FC = () => {
     }
   };
 
-  const resetGame = () => {
-    // Clear the mount point
-    if (mountRef.current) {
-      mountRef.current.innerHTML = '';
+  const saveTime = () => {
+    if (!playerName.trim() || finishTicks === null) return;
+    
+    const newTime = { name: playerName.trim(), ticks: finishTicks, medal, replay: replayCode };
+    const updatedTimes = addTimeTrialTime(times, newTime);
+    
+    setTimes(updatedTimes);
+    setPlayerName('');
+    setIsNewTime(false);
+    
+    if (saveTimeTrialTimes(gameStateRef.current.leaderboardKey, updatedTimes)) {
+      toast({
+        title: "Time saved!",
+        description: `${playerName.trim()}: ${formatRunTime(finishTicks)}`,
+      });
+    } else {
+      toast({
+        title: "Error saving time",
+        description: "Could not save your time",
+        variant: "destructive",
+      });
     }
+  };
+
+  // Stop the loop and free the session's GPU resources - the renderer is kept
+  const disposeSession = () => {
+    const gameState = gameStateRef.current;
+    
+    cancelAnimationFrame(gameState.animationId);
+    gameState.animationId = 0;
+    cancelAnimationFrame(gameState.verifyFrame);
+    gameState.verifyFrame = 0;
+    
+    disposeTrackedResources(gameState.resources);
+    gameState.scene?.clear();
+    gameState.scene = null;
+    gameState.entities = createEntityStore();
+    gameState.ball = null;
+    gameState.ghost = null;
+  };
+
+  const resetGame = (
+    nextSource: MapSource = { mode: 'classic', seed: randomSeed() },
+    nextRules: GameRules = gameStateRef.current.rules,
+    nextDifficulty: Difficulty = gameStateRef.current.difficulty
+  ) => {
+    // A new city can be picked mid-game
+    disposeSession();
     
     // Reinitialize the game
-    initGame();
+    initGame(nextSource, nextRules, nextDifficulty);
     
     // Reset game state
-    gameStateRef.current.obstacles = [];
-    gameStateRef.current.score = 0;
-    gameStateRef.current.gameSpeed = 0.1;
     gameStateRef.current.gameOver = false;
-    gameStateRef.current.ball.radius = 0.5;
-    gameStateRef.current.ball.normalRadius = 0.5;
-    gameStateRef.current.ball.position = new THREE.Vector3(0, 1, 0);
-    gameStateRef.current.ball.velocity = new THREE.Vector3(0, 0, 0);
-    gameStateRef.current.ball.consecutiveJumps = 0;
-    gameStateRef.current.ball.lastJumpTime = 0;
-    gameStateRef.current.ball.onGround = true;
-    gameStateRef.current.ball.deflated = false;
-    gameStateRef.current.mazeCompleted = false;
+    gameStateRef.current.pausedFor = null;
+    resumeStick();
     
     setGameOver(false);
+    setShowDifficultySelect(false);
+    setShowPauseMenu(false);
     setScore(0);
     setIsNewHighScore(false);
+    setVerifying(false);
     setMazeCompleted(false);
+    setReplayCode('');
+    setSplitDisplay(null);
+    setActivePowerUps([]);
+    setRunTicks(0);
+    setFinishTicks(null);
+    setMedal(null);
+    setIsNewTime(false);
     
     toast({
-      title: "City Basketball Challenge Started!",
-      description: "Space to bounce (tap multiple times for higher bounces). Arrow keys to move. Avoid nails!",
+      title: nextRules === 'timeTrial'
+        ? `Time Trial: ${describeMapSource(nextSource)}`
+        : nextSource.mode === 'daily' ? `${describeMapSource(nextSource)} Started!` : "City Basketball Challenge Started!",
+      description: nextRules === 'timeTrial'
+        ? "The clock is running - reach the basketball court as fast as you can!"
+        : `${describeBinding(gameStateRef.current.bindings, 'bounce')} to bounce (tap multiple times for higher bounces). ${describeBinding(gameStateRef.current.bindings, 'pause')} to pause. Avoid nails!`,
       duration: 5000,
     });
     
     gameLoop();
   };
 
+  const playSeed = () => {
+    const parsedSeed = parseSeed(seedInput);
+    
+    if (parsedSeed === null) {
+      toast({
+        title: "Enter a seed",
+        description: "Type a number or any word to build that city",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    setSeedInput('');
+    resetGame({ mode: 'classic', seed: parsedSeed });
+  };
+
+  const playDaily = () => {
+    resetGame(createDailySource(getDailySeed()));
+  };
+
+  const playLevel = (levelId: string) => {
+    setShowLevelSelect(false);
+    resetGame({ mode: 'level', levelId });
+  };
+
+  // Pauses a run in progress, starting again on the chosen difficulty rebuilds the city
+  const openDifficultySelect = () => {
+    gameStateRef.current.pausedFor = 'difficulty';
+    setShowDifficultySelect(true);
+    setShowPauseMenu(false);
+  };
+
+  const closeDifficultySelect = () => {
+    gameStateRef.current.pausedFor = null;
+    resumeStick();
+    setDifficulty(gameStateRef.current.difficulty);
+    setShowDifficultySelect(false);
+  };
+
+  // Only a run in progress pauses - the difficulty picker has its own way out
+  const togglePause = () => {
+    const gameState = gameStateRef.current;
+    
+    if (gameState.gameOver || gameState.pausedFor === 'difficulty') return;
+    
+    gameState.pausedFor = gameState.pausedFor ? null : 'menu';
+    setShowPauseMenu(gameState.pausedFor === 'menu');
+    
+    if (!gameState.pausedFor) {
+      resumeStick();
+    }
+  };
+
+  const changeBindings = (bindings: KeyBindings) => {
+    gameStateRef.current.bindings = bindings;
+    setBindings(bindings);
+    
+    if (!saveKeyBindings(bindings)) {
+      toast({
+        title: "Could not save controls",
+        description: "Your bindings will only last until the page is closed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const copyReplay = () => {
+    navigator.clipboard.writeText(replayCode).then(
+      () => toast({ title: "Replay copied", description: "Paste it into a bug report or the replay viewer" }),
+      () => toast({ title: "Could not copy replay", variant: "destructive" })
+    );
+  };
+
   useEffect(() => {
-    initGame();
+    // Drawn behind the difficulty picker until the player starts
+    initGame(initialSource ?? { mode: 'classic', seed: randomSeed() }, 'score', defaultDifficulty);
     
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.code === 'Space' || e.key === ' ' || e.key === 'ArrowUp') && !gameStateRef.current.jumpPressed) {
-        bounce();
-        gameStateRef.current.jumpPressed = true;
+      // Debug keys aren't game input, so they stay out of the replay
+      if (e.key === DEBUG_OVERLAY_KEY) {
+        toggleDebugOverlay();
+        return;
       }
       
-      if (e.key === 'ArrowLeft') {
-        gameStateRef.current.leftPressed = true;
-        moveLeft();
-      }
-      
-      if (e.key === 'ArrowRight') {
-        gameStateRef.current.rightPressed = true;
-        moveRight();
-      }
-      
-      // Forward/backward movement with W/S or Up/Down keys
-      if (e.key === 'ArrowDown' || e.key === 's' || e.key === 'S') {
-        moveBackward();
-      }
-      
-      if (e.key === 'w' || e.key === 'W') {
-        moveForward();
-      }
+      handleKey('down', normalizeKey(e));
     };
     
     const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.code === 'Space' || e.key === ' ' || e.key === 'ArrowUp') {
-        gameStateRef.current.jumpPressed = false;
-      }
-      
-      if (e.key === 'ArrowLeft') {
-        gameStateRef.current.leftPressed = false;
-        stopHorizontalMovement();
-      }
-      
-      if (e.key === 'ArrowRight') {
-        gameStateRef.current.rightPressed = false;
-        stopHorizontalMovement();
-      }
-      
-      if (e.key === 'ArrowDown' || e.key === 's' || e.key === 'S' || 
-          e.key === 'w' || e.key === 'W') {
-        stopHorizontalMovement();
-      }
+      handleKey('up', normalizeKey(e));
     };
     
     const handleResize = () => {
@@ -1391,9 +1058,23 @@ const OrangeBall3DGame: React.FC = () => {
       }
     };
     
+    // Only the city gets these, not the overlays over it
+    const handleMouseMove = (e: MouseEvent) => {
+      if (e.buttons & 1) {
+        orbitCamera(gameStateRef.current.cameraRig, e.movementX, e.movementY);
+      }
+    };
+    
+    const handleWheel = (e: WheelEvent) => {
+      zoomCamera(gameStateRef.current.cameraRig, e.deltaY);
+    };
+    
+    const mount = mountRef.current;
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
     window.addEventListener('resize', handleResize);
+    mount?.addEventListener('mousemove', handleMouseMove);
+    mount?.addEventListener('wheel', handleWheel);
     
     gameLoop();
     
@@ -1401,17 +1082,22 @@ const OrangeBall3DGame: React.FC = () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
       window.removeEventListener('resize', handleResize);
+      mount?.removeEventListener('mousemove', handleMouseMove);
+      mount?.removeEventListener('wheel', handleWheel);
       
-      cancelAnimationFrame(gameStateRef.current.animationId);
+      disposeSession();
       
       // Clean up THREE.js resources
       if (gameStateRef.current.renderer && mountRef.current) {
         mountRef.current.removeChild(gameStateRef.current.renderer.domElement);
         gameStateRef.current.renderer.dispose();
+        gameStateRef.current.renderer = null;
       }
     };
   }, []);
   
+  const nextLevel = source.mode === 'level' && mazeCompleted ? getNextLevel(source.levelId) : undefined;
+  
   const currentHighScore = highScores.length > 0 
     ? [...highScores].sort((a, b) => b.score - a.score)[0].score 
     : 0;
@@ -1426,36 +1112,266 @@ const OrangeBall3DGame: React.FC = () => {
       </div>
       
       {/* Game banner with goals and controls */}
-      <GameBanner />
-      
-      <div className="absolute top-2 right-5 text-right z-10">
-        <div className="text-xl font-bold text-white mb-2 bg-black/30 p-2 rounded-lg">Score: {score}</div>
-        <div className="text-base text-white whitespace-nowrap overflow-hidden text-ellipsis max-w-[200px] bg-black/30 p-2 rounded-lg">
-          High Score: {currentHighScore}
+      <GameBanner bindings={bindings} controller={controller} touch={isTouch} />
+      
+      <PowerUpDisplay powerUps={activePowerUps} />
+      
+      {showDebug && <DebugOverlay stats={renderStats} sessions={gameStateRef.current.sessions} />}
+      
+      {/* On touch screens the lower half is for the controls, anything more scrolls */}
+      <div className={`absolute top-2 right-5 text-right z-10 ${isTouch ? 'max-h-[calc(50%_-_1rem)] overflow-y-auto' : ''}`}>
+        {rules === 'timeTrial' ? (
+          <>
+            <div className="text-xl font-bold text-white mb-2 bg-black/30 p-2 rounded-lg font-mono">
+              ⏱️ {formatRunTime(finishTicks ?? runTicks)}
+            </div>
+            <div className="text-sm text-white whitespace-nowrap bg-black/30 p-2 rounded-lg">
+              {medalIcons.gold} {formatRunTime(medalThresholds.gold)} {medalIcons.silver} {formatRunTime(medalThresholds.silver)} {medalIcons.bronze} {formatRunTime(medalThresholds.bronze)}
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="text-xl font-bold text-white mb-2 bg-black/30 p-2 rounded-lg">Score: {score}</div>
+            <div className="text-base text-white whitespace-nowrap overflow-hidden text-ellipsis max-w-[200px] bg-black/30 p-2 rounded-lg">
+              High Score: {currentHighScore}
+            </div>
+          </>
+        )}
+        <div className="text-sm text-white mt-2 bg-black/30 p-2 rounded-lg">
+          {describeMapSource(source)}
         </div>
+        {splitDisplay && (
+          <div className="text-sm text-white mt-2 bg-black/30 p-2 rounded-lg font-mono">
+            {splitDisplay.label}: {splitDisplay.time}
+            {splitDisplay.delta && (
+              <span className={`ml-2 font-bold ${splitDisplay.ahead ? 'text-green-400' : 'text-red-400'}`}>
+                {splitDisplay.delta}
+              </span>
+            )}
+          </div>
+        )}
+        <button
+          className="mt-2 text-sm px-3 py-1 bg-[#FF7700]/90 hover:bg-[#FF9933] text-white rounded-lg transition-colors"
+          onClick={(e) => {
+            // Don't let Space re-trigger the button while playing
+            e.currentTarget.blur();
+            if (source.mode === 'daily') {
+              resetGame();
+            } else {
+              playDaily();
+            }
+          }}
+        >
+          {source.mode === 'daily' ? 'Random City' : 'Daily City'}
+        </button>
+        <button
+          className="mt-2 ml-2 text-sm px-3 py-1 bg-[#FF7700]/90 hover:bg-[#FF9933] text-white rounded-lg transition-colors"
+          onClick={(e) => {
+            e.currentTarget.blur();
+            // Same city, other rules
+            resetGame(source, rules === 'timeTrial' ? 'score' : 'timeTrial');
+          }}
+        >
+          {rules === 'timeTrial' ? 'Score Mode' : 'Time Trial'}
+        </button>
+        <button
+          className="mt-2 ml-2 text-sm px-3 py-1 bg-[#FF7700]/90 hover:bg-[#FF9933] text-white rounded-lg transition-colors"
+          onClick={(e) => {
+            e.currentTarget.blur();
+            setShowLevelSelect(true);
+          }}
+        >
+          Campaign
+        </button>
+        <button
+          className="mt-2 ml-2 text-sm px-3 py-1 bg-[#FF7700]/90 hover:bg-[#FF9933] text-white rounded-lg transition-colors"
+          onClick={(e) => {
+            e.currentTarget.blur();
+            openDifficultySelect();
+          }}
+        >
+          {difficultyLabels[difficulty]}
+        </button>
+        {onExit && (
+          <button
+            className="mt-2 ml-2 text-sm px-3 py-1 bg-black/50 hover:bg-black/70 text-white rounded-lg transition-colors"
+            onClick={onExit}
+          >
+            Back to Editor
+          </button>
+        )}
       </div>
       
+      {isTouch && !gameOver && (
+        <TouchControls
+          paused={showPauseMenu || showDifficultySelect}
+          onMove={(axis, value) => {
+            showController(null);
+            handleAxis(axis, value);
+          }}
+          onBounce={(type) => {
+            showController(null);
+            handleAction(type, 'bounce');
+          }}
+          onPause={togglePause}
+          onCamera={changeCameraMode}
+        />
+      )}
+      
+      {showLevelSelect && (
+        <LevelSelect
+          progress={campaignProgress}
+          onSelectLevel={playLevel}
+          onClose={() => setShowLevelSelect(false)}
+        />
+      )}
+      
+      {showPauseMenu && (
+        <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center bg-white/95 p-5 rounded-lg border-2 border-[#FF7700] min-w-[300px] z-20 shadow-xl">
+          <h1 className="text-2xl font-bold mb-4 text-[#FF7700]">Paused</h1>
+          <div className="flex flex-col gap-2">
+            <button
+              className="px-4 py-2 bg-[#FF7700] hover:bg-[#FF9933] text-white rounded-md transition-colors"
+              onClick={togglePause}
+            >
+              Resume
+            </button>
+            <button
+              className="px-4 py-2 border-2 border-[#FF7700] text-[#FF7700] hover:bg-[#FF7700] hover:text-white rounded-md transition-colors"
+              onClick={() => setShowControls(true)}
+            >
+              Controls
+            </button>
+            <button
+              className="px-4 py-2 border-2 border-[#FF7700] text-[#FF7700] hover:bg-[#FF7700] hover:text-white rounded-md transition-colors"
+              onClick={openDifficultySelect}
+            >
+              Difficulty
+            </button>
+          </div>
+        </div>
+      )}
+      
+      {showControls && (
+        <ControlsSettings
+          bindings={bindings}
+          onBindingsChange={changeBindings}
+          onClose={() => setShowControls(false)}
+        />
+      )}
+      
+      {showDifficultySelect && (
+        <DifficultySelect
+          difficulty={difficulty}
+          onDifficultyChange={setDifficulty}
+          onStart={() => resetGame(source, rules, difficulty)}
+          onClose={gameOver || gameStateRef.current.sim.tick > 0 ? closeDifficultySelect : undefined}
+        />
+      )}
+      
       {gameOver && (
         <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center bg-white/95 p-5 rounded-lg border-2 border-[#FF7700] min-w-[300px] z-10 shadow-xl">
           <h1 className="text-2xl font-bold mb-2 text-[#FF7700]">
             {mazeCompleted ? "City Challenge Completed!" : "Game Over!"}
           </h1>
           
-          <HighScoreDisplay
-            highScores={highScores}
-            isNewHighScore={isNewHighScore}
-            playerName={playerName}
-            onPlayerNameChange={setPlayerName}
-            onSaveScore={saveHighScore}
-            finalScore={finalScore}
-          />
+          {verifying && (
+            <p className="text-sm text-gray-500 mb-2 animate-pulse">Verifying run…</p>
+          )}
           
-          <button 
-            className="mt-4 px-4 py-2 bg-[#FF7700] hover:bg-[#FF9933] text-white rounded-md transition-colors"
-            onClick={resetGame}
-          >
-            Play Again
-          </button>
+          {rules === 'timeTrial' ? (
+            <TimeTrialDisplay
+              times={times}
+              thresholds={medalThresholds}
+              runTicks={finishTicks}
+              medal={medal}
+              isNewTime={isNewTime}
+              playerName={playerName}
+              onPlayerNameChange={setPlayerName}
+              onSaveTime={saveTime}
+              title={`Best Times - ${describeMapSource(source)}`}
+            />
+          ) : (
+            <div className="sm:flex sm:gap-4">
+              <ScoreBreakdownDisplay breakdown={scoreBreakdown} />
+              <HighScoreDisplay
+                highScores={highScores}
+                isNewHighScore={isNewHighScore}
+                playerName={playerName}
+                onPlayerNameChange={setPlayerName}
+                onSaveScore={saveHighScore}
+                finalScore={finalScore}
+                title={source.mode !== 'classic' ? describeMapSource(source) : undefined}
+              />
+            </div>
+          )}
+          
+          <div className="mt-4 flex justify-center gap-2">
+            {rules === 'timeTrial' ? (
+              <button 
+                className="px-4 py-2 bg-[#FF7700] hover:bg-[#FF9933] text-white rounded-md transition-colors"
+                onClick={() => resetGame(source)}
+              >
+                Retry City
+              </button>
+            ) : (
+              <button 
+                className="px-4 py-2 bg-[#FF7700] hover:bg-[#FF9933] text-white rounded-md transition-colors"
+                onClick={() => resetGame(source.mode === 'level' || source.mode === 'custom' ? source : undefined)}
+              >
+                Play Again
+              </button>
+            )}
+            {nextLevel ? (
+              <button 
+                className="px-4 py-2 border-2 border-[#FF7700] text-[#FF7700] hover:bg-[#FF7700] hover:text-white rounded-md transition-colors"
+                onClick={() => playLevel(nextLevel.id)}
+              >
+                Next Level
+              </button>
+            ) : (
+              <button 
+                className="px-4 py-2 border-2 border-[#FF7700] text-[#FF7700] hover:bg-[#FF7700] hover:text-white rounded-md transition-colors"
+                onClick={playDaily}
+              >
+                Daily City
+              </button>
+            )}
+          </div>
+          
+          {replayCode && (
+            <div className="mt-2 flex justify-center gap-4 text-sm">
+              <button className="text-[#FF7700] hover:underline" onClick={copyReplay}>
+                Copy Replay
+              </button>
+              <Link className="text-[#FF7700] hover:underline" to={`/replay?r=${encodeURIComponent(replayCode)}`}>
+                Watch Replay
+              </Link>
+            </div>
+          )}
+          
+          <div className="mt-2 text-sm">
+            <button className="text-[#FF7700] hover:underline" onClick={() => setShowControls(true)}>
+              Controls
+            </button>
+          </div>
+          
+          <div className="mt-4 flex gap-2">
+            <Input
+              type="text"
+              value={seedInput}
+              onChange={(e) => setSeedInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && playSeed()}
+              placeholder={source.mode === 'classic' || source.mode === 'daily' ? `Seed (this city: ${source.seed})` : 'Seed'}
+              maxLength={32}
+            />
+            <button 
+              className="px-4 py-2 whitespace-nowrap border-2 border-[#FF7700] text-[#FF7700] hover:bg-[#FF7700] hover:text-white rounded-md transition-colors"
+              onClick={playSeed}
+            >
+              Play Seed
+            </button>
+          </div>
         </div>
       )}
     </div>
@@ -10,6 +10,8 @@ import {
   createBallGradient, 
   drawPowerUp 
 } from './game/GameUtils';
+import { FIXED_TIMESTEP, advanceClock, createFixedTimestepClock, lerp } from './game/FixedTimestep';
+import { createKeyTracker, loadKeyBindings, normalizeKey, trackKey } from './game/InputBindings';
 
 const OrangeBallGame: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -25,6 +27,8 @@ const OrangeBallGame: React.FC = () => {
     ball: {
       x: 80,
       y: 0,
+      previousX: 80,
+      previousY: 0,
       radius: 15,
       normalRadius: 15,
       velocityY: 0,
@@ -40,12 +44,14 @@ const OrangeBallGame: React.FC = () => {
     powerUps: [],
     score: 0,
     gameSpeed: difficultySettings.medium.gameSpeed,
+    time: 0,
     lastObstacleTime: 0,
     lastPowerUpTime: 0,
     jumpPressed: false,
     leftPressed: false,
     rightPressed: false,
     animationId: 0,
+    clock: createFixedTimestepClock(),
     canvas: null,
     ctx: null,
     gameOver: false,
@@ -65,6 +71,7 @@ const OrangeBallGame: React.FC = () => {
     canvas.height = window.innerHeight;
     
     gameStateRef.current.ball.y = canvas.height - 30;
+    gameStateRef.current.ball.previousY = gameStateRef.current.ball.y;
     gameStateRef.current.ball.radius = 15;
     gameStateRef.current.ball.normalRadius = 15;
     gameStateRef.current.canvas = canvas;
@@ -94,11 +101,11 @@ const OrangeBallGame: React.FC = () => {
     canvas.height = window.innerHeight;
     
     gameStateRef.current.ball.y = canvas.height - 30;
+    gameStateRef.current.ball.previousY = gameStateRef.current.ball.y;
   };
 
   const jump = () => {
-    const { ball } = gameStateRef.current;
-    const currentTime = Date.now();
+    const { ball, time: currentTime } = gameStateRef.current;
     
     if (ball.onGround) {
       ball.consecutiveJumps = 1;
@@ -157,19 +164,37 @@ const OrangeBallGame: React.FC = () => {
     gameStateRef.current.ball.velocityX = 0;
   };
 
-  const gameLoop = () => {
+  const gameLoop = (time: number = performance.now()) => {
     const gameState = gameStateRef.current;
     
     if (!gameState.gameOver) {
-      update();
-      render();
-      gameState.animationId = requestAnimationFrame(gameLoop);
+      // Physics runs in fixed ticks so speed doesn't depend on the refresh rate
+      const { steps, alpha } = advanceClock(gameState.clock, time);
+      for (let i = 0; i < steps && !gameState.gameOver; i++) {
+        update();
+      }
+      render(alpha);
+      
+      if (!gameState.gameOver) {
+        gameState.animationId = requestAnimationFrame(gameLoop);
+      }
     }
   };
 
   const update = () => {
     const gameState = gameStateRef.current;
     
+    // Remember where everything was for interpolated drawing
+    gameState.time += FIXED_TIMESTEP;
+    gameState.ball.previousX = gameState.ball.x;
+    gameState.ball.previousY = gameState.ball.y;
+    for (const obstacle of gameState.obstacles) {
+      obstacle.previousX = obstacle.x;
+    }
+    for (const powerUp of gameState.powerUps) {
+      powerUp.previousX = powerUp.x;
+    }
+    
     if (gameState.score % 200 === 0 && gameState.score > 0) {
       gameState.gameSpeed += 0.1;
     }
@@ -224,7 +249,7 @@ const OrangeBallGame: React.FC = () => {
 
   const updateObstacles = () => {
     const gameState = gameStateRef.current;
-    const currentTime = Date.now();
+    const currentTime = gameState.time;
     const difficultyConfig = difficultySettings[gameState.difficulty];
     
     if (!gameState.canvas) return;
@@ -255,8 +280,10 @@ const OrangeBallGame: React.FC = () => {
       
       y = Math.max(0, Math.min(y, gameState.canvas.height - height));
       
+      const x = gameState.canvas.width + Math.random() * 100;
       gameState.obstacles.push({
-        x: gameState.canvas.width + Math.random() * 100,
+        x: x,
+        previousX: x,
         y: y,
         width: width,
         height: height,
@@ -279,7 +306,7 @@ const OrangeBallGame: React.FC = () => {
 
   const updatePowerUps = () => {
     const gameState = gameStateRef.current;
-    const currentTime = Date.now();
+    const currentTime = gameState.time;
     const difficultyConfig = difficultySettings[gameState.difficulty];
     
     if (!gameState.canvas) return;
@@ -297,8 +324,10 @@ const OrangeBallGame: React.FC = () => {
       const maxY = gameState.canvas.height * 0.7;
       const y = minY + Math.random() * (maxY - minY);
       
+      const x = gameState.canvas.width + Math.random() * 200;
       gameState.powerUps.push({
-        x: gameState.canvas.width + Math.random() * 200,
+        x: x,
+        previousX: x,
         y: y,
         width: width,
         height: height,
@@ -375,11 +404,15 @@ const OrangeBallGame: React.FC = () => {
     }
   };
 
-  const render = () => {
+  const render = (alpha: number) => {
     const { ctx, canvas, ball, obstacles, powerUps } = gameStateRef.current;
     
     if (!ctx || !canvas) return;
     
+    // Draw positions between the last two ticks
+    const ballX = lerp(ball.previousX, ball.x, alpha);
+    const ballY = lerp(ball.previousY, ball.y, alpha);
+    
     ctx.clearRect(0, 0, canvas.width, canvas.height);
     
     const skyGradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
@@ -408,11 +441,13 @@ const OrangeBallGame: React.FC = () => {
       ctx.fill();
     });
     
-    for (let powerUp of powerUps) {
-      drawPowerUp(ctx, powerUp);
+    for (const powerUp of powerUps) {
+      drawPowerUp(ctx, { ...powerUp, x: lerp(powerUp.previousX, powerUp.x, alpha) });
     }
     
-    for (let obstacle of obstacles) {
+    for (const { previousX, ...current } of obstacles) {
+      const obstacle = { ...current, x: lerp(previousX, current.x, alpha) };
+      
       if (obstacle.type === 'cactus') {
         ctx.fillStyle = '#3D9970';
         ctx.fillRect(obstacle.x, obstacle.y, obstacle.width, obstacle.height);
@@ -485,14 +520,14 @@ const OrangeBallGame: React.FC = () => {
     }
     
     ctx.beginPath();
-    ctx.arc(ball.x, ball.y, ball.radius, 0, Math.PI * 2);
+    ctx.arc(ballX, ballY, ball.radius, 0, Math.PI * 2);
     ctx.fillStyle = ball.color;
     ctx.fill();
     
-    const gradient = createBallGradient(ctx, ball.x, ball.y, ball.radius, ball.color);
+    const gradient = createBallGradient(ctx, ballX, ballY, ball.radius, ball.color);
     
     ctx.beginPath();
-    ctx.arc(ball.x, ball.y, ball.radius, 0, Math.PI * 2);
+    ctx.arc(ballX, ballY, ball.radius, 0, Math.PI * 2);
     ctx.fillStyle = gradient;
     ctx.fill();
   };
@@ -571,6 +606,8 @@ const OrangeBallGame: React.FC = () => {
     gameState.gameSpeed = difficultyConfig.gameSpeed;
     gameState.difficulty = 'medium';
     gameState.gameOver = false;
+    gameState.clock = createFixedTimestepClock();
+    gameState.time = 0;
     gameState.lastObstacleTime = 0;
     gameState.lastPowerUpTime = 0;
     gameState.ball.radius = 15;
@@ -582,6 +619,8 @@ const OrangeBallGame: React.FC = () => {
       gameState.ball.x = 80;
       gameState.ball.y = gameState.canvas.height - 30;
     }
+    gameState.ball.previousX = gameState.ball.x;
+    gameState.ball.previousY = gameState.ball.y;
     gameState.ball.velocityY = 0;
     gameState.ball.velocityX = 0;
     gameState.ball.onGround = true;
@@ -601,35 +640,36 @@ const OrangeBallGame: React.FC = () => {
   useEffect(() => {
     initGame();
     
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.code === 'Space' || e.key === ' ' || e.key === 'ArrowUp') && !gameStateRef.current.jumpPressed) {
-        jump();
-        gameStateRef.current.jumpPressed = true;
-      }
+    // Same bindings as the city game - forward is up here, so it jumps too
+    const bindings = loadKeyBindings();
+    const keys = createKeyTracker();
+    
+    const handleKey = (type: 'down' | 'up', e: KeyboardEvent) => {
+      const change = trackKey(keys, bindings, type, normalizeKey(e));
+      if (!change) return;
       
-      if (e.key === 'ArrowLeft') {
-        gameStateRef.current.leftPressed = true;
-      }
+      const pressed = change.type === 'down';
       
-      if (e.key === 'ArrowRight') {
-        gameStateRef.current.rightPressed = true;
-      }
-    };
-    
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.code === 'Space' || e.key === ' ' || e.key === 'ArrowUp') {
-        gameStateRef.current.jumpPressed = false;
+      if (change.action === 'bounce' || change.action === 'moveForward') {
+        if (pressed && !gameStateRef.current.jumpPressed) {
+          jump();
+        }
+        gameStateRef.current.jumpPressed = pressed;
       }
       
-      if (e.key === 'ArrowLeft') {
-        gameStateRef.current.leftPressed = false;
+      if (change.action === 'moveLeft') {
+        gameStateRef.current.leftPressed = pressed;
       }
       
-      if (e.key === 'ArrowRight') {
-        gameStateRef.current.rightPressed = false;
+      if (change.action === 'moveRight') {
+        gameStateRef.current.rightPressed = pressed;
       }
     };
     
+    const handleKeyDown = (e: KeyboardEvent) => handleKey('down', e);
+    
+    const handleKeyUp = (e: KeyboardEvent) => handleKey('up', e);
+    
     const handleTouchStart = (e: TouchEvent) => {
       e.preventDefault();
       jump();
@@ -0,0 +1,137 @@
+import * as THREE from 'three';
+import { SimulationBall } from './CitySimulation';
+import { SurfaceMaterial, SurfaceType, surfaceMaterials } from './Surfaces';
+
+// Rigid-body model of the ball: momentum, held input accelerating it up to
+// a top speed, friction, bouncing off surfaces and spin. Contacts grip the
+// ball, so sliding turns into rolling and spin carries into the next bounce.
+// Everything here runs inside the simulation, in units per tick. How much
+// the ground grips, slows and bounces the ball depends on its surface, see
+// surfaceMaterials.
+
+export const ballPhysics = {
+  acceleration: 0.012, // per tick of held input on the ground
+  airControl: 0.3, // share of the acceleration left in the air
+  maxSpeed: 0.15, // input alone can't push the ball faster than this
+  deflatedMaxSpeed: 0.05,
+  deflatedRollingFriction: 0.15, // at least this much on any surface
+  airDrag: 0.005,
+  deflatedRestitution: 0.1, // at most this much on any surface
+  wallRestitution: 0.4,
+  wallGrip: 0.5,
+  minBounceSpeed: 0.06, // softer impacts just land
+  spinDrag: 0.01,
+  inertia: 2 / 3, // moment of inertia over mass times radius squared, a hollow ball
+  contactGraceTicks: 8, // a bounce still counts this long after touching down
+};
+
+// A speed boost raises the limit whatever shape the ball is in
+export const maxSpeedFor = (ball: SimulationBall) =>
+  (ball.deflated ? ballPhysics.deflatedMaxSpeed : ballPhysics.maxSpeed) * ball.speedMultiplier;
+
+// A flat ball drags and thuds whatever it lands on
+const frictionFor = (ball: SimulationBall, material: SurfaceMaterial) =>
+  ball.deflated ? Math.max(material.friction, ballPhysics.deflatedRollingFriction) : material.friction;
+
+const restitutionFor = (ball: SimulationBall, material: SurfaceMaterial) =>
+  ball.deflated ? Math.min(material.restitution, ballPhysics.deflatedRestitution) : material.restitution;
+
+// Touching down just now, or resting on something
+export const canPushOff = (ball: SimulationBall, tick: number) =>
+  ball.onGround || tick - ball.lastContactTick <= ballPhysics.contactGraceTicks;
+
+const push = new THREE.Vector3();
+const spinRotation = new THREE.Quaternion();
+const spinAxis = new THREE.Vector3();
+
+// Gravity, friction and drag, input, then move and turn the ball by one tick
+export function integrateBall(ball: SimulationBall) {
+  const { acceleration, airControl, airDrag, spinDrag } = ballPhysics;
+
+  ball.velocity.y -= ball.gravity;
+
+  const friction = ball.onGround ? frictionFor(ball, surfaceMaterials[ball.surface]) : airDrag;
+  ball.velocity.x *= 1 - friction;
+  ball.velocity.z *= 1 - friction;
+
+  // Held input pushes the ball along, but can't take it past top speed.
+  // Anything faster, like a knock from a car, is left to friction. A stick
+  // part way over pushes less and tops out lower, keys are all the way.
+  const speedBefore = Math.hypot(ball.velocity.x, ball.velocity.z);
+  push.copy(ball.input).clampLength(0, 1);
+  const inputAmount = push.length();
+  push.multiplyScalar(acceleration * ball.speedMultiplier * (ball.onGround ? 1 : airControl));
+  ball.velocity.x += push.x;
+  ball.velocity.z += push.z;
+
+  const speedLimit = Math.max(maxSpeedFor(ball) * inputAmount, speedBefore);
+  const speed = Math.hypot(ball.velocity.x, ball.velocity.z);
+  if (speed > speedLimit) {
+    ball.velocity.x *= speedLimit / speed;
+    ball.velocity.z *= speedLimit / speed;
+  }
+
+  ball.position.add(ball.velocity);
+
+  ball.angularVelocity.multiplyScalar(1 - spinDrag);
+  const angle = ball.angularVelocity.length();
+  if (angle > 0) {
+    spinRotation.setFromAxisAngle(spinAxis.copy(ball.angularVelocity).divideScalar(angle), angle);
+    ball.orientation.premultiply(spinRotation).normalize();
+  }
+}
+
+const contactOffset = new THREE.Vector3();
+const slip = new THREE.Vector3();
+const impulse = new THREE.Vector3();
+const spinChange = new THREE.Vector3();
+
+// Touch down on the ground or a roof of the given surface
+export function landOn(ball: SimulationBall, normal: THREE.Vector3, surface: SurfaceType) {
+  const material = surfaceMaterials[surface];
+  ball.surface = surface;
+
+  resolveContact(ball, normal, restitutionFor(ball, material), material.grip);
+
+  if (!ball.deflated && ball.velocity.y < material.launchSpeed) {
+    ball.velocity.y = material.launchSpeed;
+  }
+}
+
+// Glance off a wall, or the underside of anything overhead
+export function hitWall(ball: SimulationBall, normal: THREE.Vector3) {
+  resolveContact(ball, normal, ballPhysics.wallRestitution, ballPhysics.wallGrip);
+}
+
+// Bounce the part of the velocity going into a surface with the given
+// outward normal, then let the surface grip the ball
+function resolveContact(ball: SimulationBall, normal: THREE.Vector3, restitution: number, grip: number) {
+  const normalSpeed = ball.velocity.dot(normal);
+  if (normalSpeed >= 0) return; // already moving away
+
+  const bounce = -normalSpeed > ballPhysics.minBounceSpeed ? restitution : 0;
+  ball.velocity.addScaledVector(normal, -normalSpeed * (1 + bounce));
+
+  // A flat ball scrapes along rather than rolling
+  if (!ball.deflated) {
+    applyGrip(ball, normal, grip);
+  }
+}
+
+// Friction at the contact point trades speed for spin, or spin for speed,
+// until the ball rolls without slipping. Grip is how much of the slip goes
+// each tick, 0 to 1.
+function applyGrip(ball: SimulationBall, normal: THREE.Vector3, grip: number) {
+  const { inertia } = ballPhysics;
+
+  contactOffset.copy(normal).multiplyScalar(-ball.radius);
+  slip.crossVectors(ball.angularVelocity, contactOffset).add(ball.velocity);
+  slip.addScaledVector(normal, -slip.dot(normal));
+
+  // Removes all of the slip when grip is 1, split between moving and turning
+  impulse.copy(slip).multiplyScalar(-grip / (1 + 1 / inertia));
+  ball.velocity.add(impulse);
+
+  spinChange.crossVectors(contactOffset, impulse).divideScalar(inertia * ball.radius * ball.radius);
+  ball.angularVelocity.add(spinChange);
+}
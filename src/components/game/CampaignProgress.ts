@@ -0,0 +1,47 @@
+import { campaignLevels } from './Levels';
+
+// Which campaign levels have been beaten, kept locally
+
+export interface CampaignProgress {
+  completed: string[]; // level ids
+}
+
+const campaignProgressKey = 'orangeBallCampaignProgress';
+
+export function loadCampaignProgress(): CampaignProgress {
+  try {
+    const savedProgress = localStorage.getItem(campaignProgressKey);
+    if (savedProgress) {
+      return JSON.parse(savedProgress);
+    }
+  } catch (e) {
+    console.log("Could not load campaign progress:", e);
+  }
+  return { completed: [] };
+}
+
+export function saveCampaignProgress(progress: CampaignProgress): boolean {
+  try {
+    localStorage.setItem(campaignProgressKey, JSON.stringify(progress));
+    return true;
+  } catch (e) {
+    console.log("Could not save campaign progress:", e);
+    return false;
+  }
+}
+
+export function isLevelCompleted(progress: CampaignProgress, id: string): boolean {
+  return progress.completed.includes(id);
+}
+
+// The first level is always open, every other one needs the level before it
+export function isLevelUnlocked(progress: CampaignProgress, index: number): boolean {
+  if (index <= 0) return true;
+  const previous = campaignLevels[index - 1];
+  return previous !== undefined && isLevelCompleted(progress, previous.id);
+}
+
+export function markLevelCompleted(progress: CampaignProgress, id: string): CampaignProgress {
+  if (isLevelCompleted(progress, id)) return progress;
+  return { completed: [...progress.completed, id] };
+}
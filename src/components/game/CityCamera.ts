@@ -0,0 +1,196 @@
+import * as THREE from 'three';
+import { WorldDescription } from './CitySimulation';
+import { queryGrid } from './SpatialGrid';
+
+// Where the camera sits around the ball. Every mode but the ball cam looks
+// at a smoothed point on the ball from some way off, and is pulled in
+// whenever a building comes between them so the ball stays in sight.
+
+export type CameraMode = 'chase' | 'orbit' | 'topDown' | 'ballCam';
+
+export const cameraModes: CameraMode[] = ['chase', 'orbit', 'topDown', 'ballCam'];
+
+export const cameraModeLabels: Record<CameraMode, string> = {
+  chase: 'Chase',
+  orbit: 'Orbit',
+  topDown: 'Top-down',
+  ballCam: 'Ball cam',
+};
+
+export const cameraSettings = {
+  chaseOffset: new THREE.Vector3(0, 8, 15),
+  topDownOffset: new THREE.Vector3(0, 35, 4), // a little behind, straight down has no "up"
+  followRate: 6, // per second, how quickly the camera catches up with the ball
+  orbitSpeed: 0.005, // radians per pixel dragged
+  zoomSpeed: 0.02, // units per wheel step
+  minOrbitDistance: 5,
+  maxOrbitDistance: 40,
+  minPitch: 0.1, // radians above the horizon
+  maxPitch: 1.4,
+  ballCamHeight: 0.8, // just over the top of the ball
+  headingRate: 5, // per second, how quickly the ball cam turns to face where it rolls
+  occlusionMargin: 0.5, // kept between the camera and a building that blocks it
+  minDistance: 2,
+  returnRate: 2, // per second, how quickly a pulled in camera eases back out
+};
+
+export interface CameraRig {
+  mode: CameraMode;
+  target: THREE.Vector3; // smoothed point it looks at
+  distance: number; // from the target, shorter while something's in the way
+  yaw: number; // orbit only, radians around the ball
+  pitch: number;
+  orbitDistance: number;
+  heading: number; // ball cam only, radians around y, 0 faces +z
+  lastTime: number | null; // ms, of the last update
+  snap: boolean; // jump straight into place next update, after a new run or mode
+}
+
+export function createCameraRig(mode: CameraMode): CameraRig {
+  const { chaseOffset } = cameraSettings;
+
+  return {
+    mode,
+    target: new THREE.Vector3(),
+    distance: chaseOffset.length(),
+    // Orbit starts from where the chase cam is
+    yaw: 0,
+    pitch: Math.atan2(chaseOffset.y, chaseOffset.z),
+    orbitDistance: chaseOffset.length(),
+    heading: Math.PI, // forward
+    lastTime: null,
+    snap: true,
+  };
+}
+
+export function cycleCameraMode(rig: CameraRig): CameraMode {
+  rig.mode = cameraModes[(cameraModes.indexOf(rig.mode) + 1) % cameraModes.length];
+  rig.snap = true;
+  return rig.mode;
+}
+
+// Dragging moves the orbit camera around the ball, other modes ignore it
+export function orbitCamera(rig: CameraRig, dx: number, dy: number) {
+  if (rig.mode !== 'orbit') return;
+
+  const { orbitSpeed, minPitch, maxPitch } = cameraSettings;
+  rig.yaw -= dx * orbitSpeed;
+  rig.pitch = THREE.MathUtils.clamp(rig.pitch + dy * orbitSpeed, minPitch, maxPitch);
+}
+
+export function zoomCamera(rig: CameraRig, delta: number) {
+  if (rig.mode !== 'orbit') return;
+
+  const { zoomSpeed, minOrbitDistance, maxOrbitDistance } = cameraSettings;
+  rig.orbitDistance = THREE.MathUtils.clamp(rig.orbitDistance + delta * zoomSpeed, minOrbitDistance, maxOrbitDistance);
+}
+
+const cameraModeStorageKey = 'orangeBallCameraMode';
+
+export function loadCameraMode(): CameraMode {
+  try {
+    const savedMode = localStorage.getItem(cameraModeStorageKey);
+    if (savedMode && cameraModes.includes(savedMode as CameraMode)) {
+      return savedMode as CameraMode;
+    }
+  } catch (e) {
+    console.log("Could not load camera mode:", e);
+  }
+  return 'chase';
+}
+
+export function saveCameraMode(mode: CameraMode) {
+  try {
+    localStorage.setItem(cameraModeStorageKey, mode);
+  } catch (e) {
+    console.log("Could not save camera mode:", e);
+  }
+}
+
+const ray = new THREE.Ray();
+const hit = new THREE.Vector3();
+const direction = new THREE.Vector3();
+const midpoint = new THREE.Vector3();
+
+// How far the camera can go from the target along a direction before a building is in the way
+export function unblockedDistance(world: WorldDescription, from: THREE.Vector3, along: THREE.Vector3, distance: number): number {
+  ray.set(from, along);
+  midpoint.copy(from).addScaledVector(along, distance / 2);
+
+  let nearest = distance;
+  for (const index of queryGrid(world.broadPhase.buildings, midpoint, distance / 2)) {
+    if (ray.intersectBox(world.buildings[index], hit)) {
+      nearest = Math.min(nearest, hit.distanceTo(from) - cameraSettings.occlusionMargin);
+    }
+  }
+
+  return Math.max(nearest, cameraSettings.minDistance);
+}
+
+// Direction from the target out to the camera, and how far it wants to be
+function cameraPlacement(rig: CameraRig): number {
+  switch (rig.mode) {
+    case 'orbit':
+      direction.set(
+        Math.sin(rig.yaw) * Math.cos(rig.pitch),
+        Math.sin(rig.pitch),
+        Math.cos(rig.yaw) * Math.cos(rig.pitch)
+      );
+      return rig.orbitDistance;
+    case 'topDown':
+      direction.copy(cameraSettings.topDownOffset).normalize();
+      return cameraSettings.topDownOffset.length();
+    default:
+      direction.copy(cameraSettings.chaseOffset).normalize();
+      return cameraSettings.chaseOffset.length();
+  }
+}
+
+// Place the camera for this frame. Velocity is the ball's, for the ball cam to face along.
+export function updateCameraRig(
+  rig: CameraRig,
+  camera: THREE.Camera,
+  ballPosition: THREE.Vector3,
+  ballVelocity: THREE.Vector3,
+  world: WorldDescription,
+  time: number
+) {
+  // Long gaps, like a hidden tab, catch up in one step instead of swinging around
+  const seconds = rig.lastTime === null ? 0 : Math.min((time - rig.lastTime) / 1000, 0.1);
+  rig.lastTime = time;
+  const smoothing = (rate: number) => rig.snap ? 1 : 1 - Math.exp(-rate * seconds);
+
+  if (rig.mode === 'ballCam') {
+    // Turn the short way round towards where it's rolling, and keep the last heading when it stops
+    if (Math.hypot(ballVelocity.x, ballVelocity.z) > 0.01) {
+      const turn = THREE.MathUtils.euclideanModulo(Math.atan2(ballVelocity.x, ballVelocity.z) - rig.heading + Math.PI, Math.PI * 2) - Math.PI;
+      rig.heading += turn * smoothing(cameraSettings.headingRate);
+    }
+
+    camera.position.copy(ballPosition);
+    camera.position.y += cameraSettings.ballCamHeight;
+    rig.target.set(Math.sin(rig.heading), 0, Math.cos(rig.heading)).add(camera.position);
+    camera.lookAt(rig.target);
+    rig.snap = false;
+    return;
+  }
+
+  if (rig.snap) {
+    rig.target.copy(ballPosition);
+  } else {
+    rig.target.lerp(ballPosition, smoothing(cameraSettings.followRate));
+  }
+
+  // Pulled in straight away so the ball's never hidden, eased back out after
+  const wanted = cameraPlacement(rig);
+  const clear = unblockedDistance(world, rig.target, direction, wanted);
+  if (rig.snap || clear < rig.distance) {
+    rig.distance = clear;
+  } else {
+    rig.distance += (clear - rig.distance) * smoothing(cameraSettings.returnRate);
+  }
+
+  camera.position.copy(rig.target).addScaledVector(direction, rig.distance);
+  camera.lookAt(rig.target);
+  rig.snap = false;
+}
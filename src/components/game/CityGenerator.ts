@@ -0,0 +1,610 @@
+import * as THREE from 'three';
+import { RandomSource, createRandom, deriveSeed } from './SeededRandom';
+import { WorldDescription, WorldObstacle, createWorld } from './CitySimulation';
+import { walkwayFromRoad } from './Pedestrians';
+import { SurfaceType, WorldSurface } from './Surfaces';
+import { FireEscape, climbingRoute, platformBounds, rampToWorld, rooftopSettings } from './Rooftops';
+import { PowerUpType, powerUpTypes } from './PowerUps';
+import { Difficulty, cityDifficulties, defaultDifficulty } from './Difficulty';
+
+// Plain, serializable description of a city. The same layout always builds
+// the same scene and the same simulation world.
+
+export interface Point3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface RoadLayout {
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+}
+
+export interface BuildingLayout {
+  x: number;
+  z: number;
+  width: number;
+  height: number;
+  depth: number;
+  color: number;
+  fireEscape?: FireEscape; // a ramp, awning and fire escape up this side, see climbingRoute
+}
+
+export interface PropLayout {
+  x: number;
+  z: number;
+}
+
+export interface TreeLayout extends PropLayout {
+  kind: 'conical' | 'spherical';
+}
+
+export interface PersonLayout extends PropLayout {
+  color: number;
+}
+
+// A painted patch of surface. One whose centre is over a building lies on its roof.
+export interface SurfaceLayout {
+  type: SurfaceType;
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+}
+
+export interface PowerUpLayout extends Point3 {
+  type: PowerUpType;
+}
+
+export interface CloudLayout extends Point3 {
+  puffs: {
+    position: Point3;
+    scale: Point3;
+  }[];
+}
+
+export interface CityLayout {
+  seed: number;
+  start: Point3;
+  goal: Point3;
+  roads: RoadLayout[];
+  buildings: BuildingLayout[];
+  nails: PropLayout[];
+  hydrants: PropLayout[];
+  trees: TreeLayout[];
+  people: PersonLayout[];
+  surfaces: SurfaceLayout[];
+  coins: Point3[];
+  powerUps: PowerUpLayout[];
+  clouds: CloudLayout[];
+}
+
+export const buildingColors = [
+  0x555555, // Dark gray
+  0x666666, // Medium gray
+  0x777777, // Light gray
+  0x888888, // Silver
+  0x444444, // Charcoal
+];
+
+export const personColors = [0x3366CC, 0xCC6633]; // Blue or brown
+
+// Collision extents of each prop relative to its ground position, matching the meshes in CityScene
+export const propBounds = {
+  nail: { min: { x: -0.3, y: 0, z: -0.3 }, max: { x: 0.3, y: 1, z: 0.3 } },
+  hydrant: { min: { x: -0.35, y: 0, z: -0.35 }, max: { x: 0.45, y: 1.2, z: 0.45 } },
+  tree: { min: { x: -0.4, y: 0, z: -0.4 }, max: { x: 0.4, y: 2, z: 0.4 } },
+  person: { min: { x: -0.3, y: 0.1, z: -0.3 }, max: { x: 0.3, y: 1.5, z: 0.3 } },
+};
+
+export interface CityLayoutOptions {
+  // Derive the court position from the seed instead of the fixed corner
+  randomGoal?: boolean;
+  difficulty?: Difficulty; // medium by default
+}
+
+const defaultStart: Point3 = { x: 0, y: 1, z: 0 };
+const defaultGoal: Point3 = { x: 60, y: 0.5, z: 60 };
+
+export function generateCityLayout(seed: number, options: CityLayoutOptions = {}): CityLayout {
+  const settings = cityDifficulties[options.difficulty ?? defaultDifficulty];
+  const start = { ...defaultStart };
+  const goal = options.randomGoal
+    ? createGoal(createRandom(deriveSeed(seed, 'goal')), start, settings.goalDistanceScale)
+    : moveGoal(start, defaultGoal, settings.goalDistanceScale);
+
+  const buildings = addFireEscapes(
+    createRandom(deriveSeed(seed, 'rooftops')),
+    start,
+    goal,
+    createBuildings(createRandom(deriveSeed(seed, 'buildings')), start, goal)
+  );
+
+  return {
+    seed,
+    start,
+    goal,
+    roads: createRoads(),
+    buildings,
+    nails: createNails(createRandom(deriveSeed(seed, 'nails')), start, goal, buildings, settings.nails),
+    hydrants: createHydrants(createRandom(deriveSeed(seed, 'hydrants')), start, goal, settings.hydrants),
+    trees: createTrees(createRandom(deriveSeed(seed, 'trees')), start, goal, buildings),
+    people: createPeople(createRandom(deriveSeed(seed, 'people')), settings.people),
+    surfaces: createSurfaces(createRandom(deriveSeed(seed, 'surfaces')), start, goal, buildings),
+    coins: placeCoins(createRandom(deriveSeed(seed, 'coins')), buildings),
+    powerUps: createPowerUps(createRandom(deriveSeed(seed, 'powerUps')), start, goal, buildings),
+    clouds: generateClouds(seed)
+  };
+}
+
+// Sky decoration only, also used for authored levels that don't declare clouds
+export function generateClouds(seed: number): CloudLayout[] {
+  return createClouds(createRandom(deriveSeed(seed, 'clouds')));
+}
+
+const nearPoint = (x: number, z: number, point: Point3, distance: number) =>
+  Math.abs(x - point.x) < distance && Math.abs(z - point.z) < distance;
+
+type Footprint = Pick<BuildingLayout, 'x' | 'z' | 'width' | 'depth'>;
+
+const nearFootprint = (x: number, z: number, footprint: Footprint, margin: number) =>
+  Math.abs(footprint.x - x) < footprint.width / 2 + margin &&
+  Math.abs(footprint.z - z) < footprint.depth / 2 + margin;
+
+const overlapsFootprint = (a: Footprint, b: Footprint, margin: number) =>
+  nearFootprint(a.x, a.z, { ...b, width: b.width + a.width, depth: b.depth + a.depth }, margin);
+
+// Near a building, or the ramp up to its fire escape
+const nearBuilding = (x: number, z: number, buildings: BuildingLayout[], margin: number) =>
+  buildings.some(building =>
+    nearFootprint(x, z, building, margin) ||
+    (building.fireEscape !== undefined && nearFootprint(x, z, climbingRoute(building, building.fireEscape).ramp, margin))
+  );
+
+const clampToCity = (value: number) => Math.max(-65, Math.min(65, value));
+
+function createGoal(random: RandomSource, start: Point3, distanceScale: number): Point3 {
+  // Somewhere in the outer ring of the city so the run is never trivial
+  const angle = random() * Math.PI * 2;
+  const distance = (60 + random() * 20) * distanceScale;
+
+  return {
+    x: clampToCity(start.x + Math.cos(angle) * distance),
+    y: defaultGoal.y,
+    z: clampToCity(start.z + Math.sin(angle) * distance)
+  };
+}
+
+// The court pulled in towards the start, or pushed out, in the same direction
+const moveGoal = (start: Point3, goal: Point3, distanceScale: number): Point3 => ({
+  x: clampToCity(start.x + (goal.x - start.x) * distanceScale),
+  y: goal.y,
+  z: clampToCity(start.z + (goal.z - start.z) * distanceScale)
+});
+
+function createRoads(): RoadLayout[] {
+  const roads: RoadLayout[] = [];
+
+  // Horizontal and vertical roads through the city
+  for (let i = -80; i <= 80; i += 40) {
+    roads.push({ x: 0, z: i, width: 180, depth: 10 });
+  }
+  for (let i = -80; i <= 80; i += 40) {
+    roads.push({ x: i, z: 0, width: 10, depth: 180 });
+  }
+
+  return roads;
+}
+
+function createBuildings(random: RandomSource, start: Point3, goal: Point3): BuildingLayout[] {
+  const buildings: BuildingLayout[] = [];
+
+  // City layout - random and open, with spacing between buildings
+  for (let i = 0; i < 40; i++) {
+    const width = 3 + random() * 5;
+    const height = 5 + random() * 20;
+    const depth = 3 + random() * 5;
+
+    let x = 0, z = 0;
+    let validPosition = false;
+
+    // Try to find a valid position that doesn't overlap with other buildings
+    while (!validPosition) {
+      x = (random() - 0.5) * 150;
+      z = (random() - 0.5) * 150;
+
+      // Skip positions too close to start or basketball court
+      if (nearPoint(x, z, start, 10)) continue;
+      if (nearPoint(x, z, goal, 15)) continue;
+
+      validPosition = !buildings.some(building =>
+        Math.abs(building.x - x) < 8 && Math.abs(building.z - z) < 8
+      );
+    }
+
+    const color = buildingColors[Math.floor(random() * buildingColors.length)];
+    buildings.push({ x, z, width, height, depth, color });
+  }
+
+  return buildings;
+}
+
+// Climbing routes up a few of the taller buildings, on a side with room
+// for the ramp
+function addFireEscapes(
+  random: RandomSource,
+  start: Point3,
+  goal: Point3,
+  buildings: BuildingLayout[]
+): BuildingLayout[] {
+  const sides: FireEscape[] = [
+    { axis: 'x', direction: 1 },
+    { axis: 'x', direction: -1 },
+    { axis: 'z', direction: 1 },
+    { axis: 'z', direction: -1 },
+  ];
+  const candidates = buildings.filter(building =>
+    building.height >= 10 && !nearPoint(building.x, building.z, start, 15) && !nearPoint(building.x, building.z, goal, 20)
+  );
+  const climbable = new Map<BuildingLayout, FireEscape>();
+
+  for (let i = 0; i < 5 && candidates.length > 0; i++) {
+    const [building] = candidates.splice(Math.floor(random() * candidates.length), 1);
+    const first = Math.floor(random() * sides.length);
+
+    for (let j = 0; j < sides.length; j++) {
+      const side = sides[(first + j) % sides.length];
+      const { ramp } = climbingRoute(building, side);
+      const others = buildings.filter(other => other !== building);
+      const ramps = [...climbable].map(([other, otherSide]) => climbingRoute(other, otherSide).ramp);
+
+      const clear = Math.abs(ramp.x) < 85 && Math.abs(ramp.z) < 85 &&
+        !others.some(other => overlapsFootprint(ramp, other, 1)) &&
+        !ramps.some(other => overlapsFootprint(ramp, other, 1));
+      if (clear) {
+        climbable.set(building, side);
+        break;
+      }
+    }
+  }
+
+  return buildings.map(building => {
+    const fireEscape = climbable.get(building);
+    return fireEscape ? { ...building, fireEscape } : building;
+  });
+}
+
+// Coins up high: on every roof with a fire escape and its top landing, and
+// on a few roofs low enough for a triple power bounce from the street
+function placeCoins(random: RandomSource, buildings: BuildingLayout[]): Point3[] {
+  const { coinHeight, minCoinHeight } = rooftopSettings;
+  const coins: Point3[] = [];
+
+  for (const building of buildings) {
+    if (!building.fireEscape) continue;
+
+    coins.push({ x: building.x, y: building.height + coinHeight, z: building.z });
+    const { platforms } = climbingRoute(building, building.fireEscape);
+    const top = platforms[platforms.length - 1];
+    if (top.kind === 'landing' && top.height >= minCoinHeight) {
+      coins.push({ x: top.x, y: top.height + coinHeight, z: top.z });
+    }
+  }
+
+  const bounceRoofs = buildings.filter(building =>
+    !building.fireEscape && building.height >= minCoinHeight && building.height <= 13
+  );
+  for (let i = 0; i < 6 && bounceRoofs.length > 0; i++) {
+    const [building] = bounceRoofs.splice(Math.floor(random() * bounceRoofs.length), 1);
+    coins.push({ x: building.x, y: building.height + coinHeight, z: building.z });
+  }
+
+  return coins;
+}
+
+function createNails(
+  random: RandomSource,
+  start: Point3,
+  goal: Point3,
+  buildings: BuildingLayout[],
+  count: number
+): PropLayout[] {
+  const nails: PropLayout[] = [];
+
+  for (let i = 0; i < count; i++) {
+    let x = 0, z = 0;
+    let validPosition = false;
+
+    // Away from start, goal and buildings
+    while (!validPosition) {
+      x = (random() - 0.5) * 140;
+      z = (random() - 0.5) * 140;
+
+      if (nearPoint(x, z, start, 10)) continue;
+      if (nearPoint(x, z, goal, 20)) continue;
+
+      validPosition = !nearBuilding(x, z, buildings, 2);
+    }
+
+    nails.push({ x, z });
+  }
+
+  return nails;
+}
+
+function createHydrants(random: RandomSource, start: Point3, goal: Point3, count: number): PropLayout[] {
+  const hydrants: PropLayout[] = [];
+
+  for (let i = 0; i < count; i++) {
+    let x = 0, z = 0;
+    let validPosition = false;
+
+    while (!validPosition) {
+      // Position near roads but offset a bit, like a sidewalk
+      if (random() > 0.5) {
+        x = Math.floor(random() * 5 - 2) * 40 + (random() > 0.5 ? 6 : -6);
+        z = (random() - 0.5) * 140;
+      } else {
+        x = (random() - 0.5) * 140;
+        z = Math.floor(random() * 5 - 2) * 40 + (random() > 0.5 ? 6 : -6);
+      }
+
+      validPosition = !nearPoint(x, z, start, 10) && !nearPoint(x, z, goal, 20);
+    }
+
+    hydrants.push({ x, z });
+  }
+
+  return hydrants;
+}
+
+function createTrees(
+  random: RandomSource,
+  start: Point3,
+  goal: Point3,
+  buildings: BuildingLayout[]
+): TreeLayout[] {
+  const trees: TreeLayout[] = [];
+
+  for (let i = 0; i < 30; i++) {
+    let x = 0, z = 0;
+    let validPosition = false;
+
+    // Away from buildings, start, and goal
+    while (!validPosition) {
+      x = (random() - 0.5) * 160;
+      z = (random() - 0.5) * 160;
+
+      if (nearPoint(x, z, start, 10)) continue;
+      if (nearPoint(x, z, goal, 20)) continue;
+
+      validPosition = !nearBuilding(x, z, buildings, 3);
+    }
+
+    trees.push({ x, z, kind: random() > 0.5 ? 'conical' : 'spherical' });
+  }
+
+  return trees;
+}
+
+function createPeople(random: RandomSource, count: number): PersonLayout[] {
+  const people: PersonLayout[] = [];
+
+  for (let i = 0; i < count; i++) {
+    let x = 0, z = 0;
+
+    // Position people along the roads
+    if (random() > 0.5) {
+      x = (random() - 0.5) * 150;
+      z = Math.floor(random() * 5 - 2) * 40 + (random() * 6 - 3);
+    } else {
+      x = Math.floor(random() * 5 - 2) * 40 + (random() * 6 - 3);
+      z = (random() - 0.5) * 150;
+    }
+
+    people.push({ x, z, color: personColors[random() > 0.5 ? 0 : 1] });
+  }
+
+  return people;
+}
+
+function createSurfaces(
+  random: RandomSource,
+  start: Point3,
+  goal: Point3,
+  buildings: BuildingLayout[]
+): SurfaceLayout[] {
+  const surfaces: SurfaceLayout[] = [];
+
+  // Grass parks and sand lots between the roads, clear of buildings
+  const patches: { type: SurfaceType; count: number; size: number }[] = [
+    { type: 'grass', count: 4, size: 14 },
+    { type: 'sand', count: 2, size: 10 },
+  ];
+  for (const { type, count, size } of patches) {
+    for (let i = 0; i < count; i++) {
+      let x = 0, z = 0;
+      let validPosition = false;
+
+      for (let attempt = 0; attempt < 50 && !validPosition; attempt++) {
+        // Centred in a block, between two roads each way
+        x = Math.floor(random() * 4 - 2) * 40 + 20 + (random() - 0.5) * 10;
+        z = Math.floor(random() * 4 - 2) * 40 + 20 + (random() - 0.5) * 10;
+
+        validPosition = !nearPoint(x, z, start, size) && !nearPoint(x, z, goal, size + 8) &&
+          !nearBuilding(x, z, buildings, size / 2);
+      }
+
+      if (validPosition) {
+        surfaces.push({ type, x, z, width: size, depth: size * (0.6 + random() * 0.4) });
+      }
+    }
+  }
+
+  // Puddles on the roads, like the hydrants but in the middle of the street
+  for (let i = 0; i < 6; i++) {
+    const along = (random() - 0.5) * 140;
+    const across = Math.floor(random() * 5 - 2) * 40 + (random() - 0.5) * 4;
+    const [x, z] = random() > 0.5 ? [along, across] : [across, along];
+
+    if (!nearPoint(x, z, start, 8) && !nearPoint(x, z, goal, 15) && !nearBuilding(x, z, buildings, 3)) {
+      surfaces.push({ type: 'puddle', x, z, width: 2 + random() * 3, depth: 2 + random() * 3 });
+    }
+  }
+
+  // Trampolines on a few of the lower rooftops
+  const lowRoofs = buildings.filter(building => building.height < 12);
+  for (let i = 0; i < 4 && lowRoofs.length > 0; i++) {
+    const [building] = lowRoofs.splice(Math.floor(random() * lowRoofs.length), 1);
+    surfaces.push({
+      type: 'trampoline',
+      x: building.x,
+      z: building.z,
+      width: Math.max(building.width - 1, 1),
+      depth: Math.max(building.depth - 1, 1)
+    });
+  }
+
+  return surfaces;
+}
+
+// Pickups floating over the streets, one of each kind and a few more
+function createPowerUps(
+  random: RandomSource,
+  start: Point3,
+  goal: Point3,
+  buildings: BuildingLayout[]
+): PowerUpLayout[] {
+  const powerUps: PowerUpLayout[] = [];
+
+  for (let i = 0; i < 8; i++) {
+    const type = i < powerUpTypes.length ? powerUpTypes[i] : powerUpTypes[Math.floor(random() * powerUpTypes.length)];
+    let x = 0, z = 0;
+    let validPosition = false;
+
+    for (let attempt = 0; attempt < 50 && !validPosition; attempt++) {
+      // On a road, off the centre line
+      const along = (random() - 0.5) * 140;
+      const across = Math.floor(random() * 5 - 2) * 40 + (random() > 0.5 ? 2 : -2);
+      [x, z] = random() > 0.5 ? [along, across] : [across, along];
+
+      validPosition = !nearPoint(x, z, start, 8) && !nearPoint(x, z, goal, 10) && !nearBuilding(x, z, buildings, 2);
+    }
+
+    if (validPosition) {
+      powerUps.push({ type, x, y: 1, z });
+    }
+  }
+
+  return powerUps;
+}
+
+// The roof a patch is painted on, or 0 for the ground
+export function surfaceHeight(surface: SurfaceLayout, buildings: BuildingLayout[]): number {
+  const building = buildings.find(candidate =>
+    Math.abs(candidate.x - surface.x) < candidate.width / 2 &&
+    Math.abs(candidate.z - surface.z) < candidate.depth / 2
+  );
+  return building ? building.height : 0;
+}
+
+function createClouds(random: RandomSource): CloudLayout[] {
+  const clouds: CloudLayout[] = [];
+
+  for (let i = 0; i < 5; i++) {
+    // Random cloud shapes made of a few puffs
+    const puffs: CloudLayout['puffs'] = [];
+    const numPuffs = 3 + Math.floor(random() * 3);
+    for (let j = 0; j < numPuffs; j++) {
+      puffs.push({
+        position: {
+          x: (random() - 0.5) * 2,
+          y: (random() - 0.5) * 0.5,
+          z: (random() - 0.5) * 2
+        },
+        scale: {
+          x: 0.5 + random() * 0.5,
+          y: 0.5 + random() * 0.3,
+          z: 0.5 + random() * 0.5
+        }
+      });
+    }
+
+    clouds.push({
+      x: (random() - 0.5) * 40,
+      y: 10 + random() * 5,
+      z: (random() - 0.5) * 20 - 15,
+      puffs
+    });
+  }
+
+  return clouds;
+}
+
+// Width and depth of the court floor
+export const courtSize = 15;
+
+const propBox = (prop: PropLayout, bounds: typeof propBounds.nail) => new THREE.Box3(
+  new THREE.Vector3(prop.x + bounds.min.x, bounds.min.y, prop.z + bounds.min.z),
+  new THREE.Vector3(prop.x + bounds.max.x, bounds.max.y, prop.z + bounds.max.z)
+);
+
+// Collision world for the simulation, computed once per layout
+export function createWorldDescription(layout: CityLayout, difficulty: Difficulty = defaultDifficulty): WorldDescription {
+  const routes = layout.buildings.flatMap(building =>
+    building.fireEscape ? [climbingRoute(building, building.fireEscape)] : []
+  );
+
+  const obstacles: WorldObstacle[] = [
+    ...layout.nails.map(nail => ({ type: 'nail' as const, dangerous: true, bounds: propBox(nail, propBounds.nail) })),
+    ...layout.hydrants.map(hydrant => ({ type: 'hydrant' as const, dangerous: false, bounds: propBox(hydrant, propBounds.hydrant) })),
+    ...layout.trees.map(tree => ({ type: 'tree' as const, dangerous: false, bounds: propBox(tree, propBounds.tree) })),
+  ];
+
+  return createWorld({
+    buildings: layout.buildings.map(building => new THREE.Box3(
+      new THREE.Vector3(building.x - building.width / 2, 0, building.z - building.depth / 2),
+      new THREE.Vector3(building.x + building.width / 2, building.height, building.z + building.depth / 2)
+    )),
+    obstacles,
+    // People walk the roads, cars drive them
+    walkways: layout.roads.map(road => walkwayFromRoad(road.x, road.z, road.width, road.depth)),
+    pedestrians: layout.people.map(person => ({
+      position: new THREE.Vector3(person.x, 0, person.z),
+      bounds: propBox(person, propBounds.person)
+    })),
+    trafficDensity: cityDifficulties[difficulty].trafficDensity,
+    surfaces: [
+      ...layout.surfaces.map((surface): WorldSurface => ({
+        type: surface.type,
+        minX: surface.x - surface.width / 2,
+        maxX: surface.x + surface.width / 2,
+        minZ: surface.z - surface.depth / 2,
+        maxZ: surface.z + surface.depth / 2,
+        height: surfaceHeight(surface, layout.buildings)
+      })),
+      // The court floor, matching the one in CityScene
+      {
+        type: 'hardwood',
+        minX: layout.goal.x - courtSize / 2,
+        maxX: layout.goal.x + courtSize / 2,
+        minZ: layout.goal.z - courtSize / 2,
+        maxZ: layout.goal.z + courtSize / 2,
+        height: 0
+      }
+    ],
+    platforms: routes.flatMap(route => route.platforms.map(platformBounds)),
+    ramps: routes.map(route => rampToWorld(route.ramp)),
+    coins: layout.coins.map(coin => new THREE.Vector3(coin.x, coin.y, coin.z)),
+    powerUps: layout.powerUps.map(powerUp => ({
+      type: powerUp.type,
+      position: new THREE.Vector3(powerUp.x, powerUp.y, powerUp.z)
+    })),
+    difficulty,
+    startPosition: new THREE.Vector3(layout.start.x, layout.start.y, layout.start.z),
+    goalPosition: new THREE.Vector3(layout.goal.x, layout.goal.y, layout.goal.z)
+  });
+}
@@ -0,0 +1,889 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { BuildingLayout, CityLayout, courtSize, surfaceHeight } from './CityGenerator';
+import { ObstacleType } from './CitySimulation';
+import { SurfaceType, surfaceColors } from './Surfaces';
+import { RampLayout, climbingRoute, rooftopSettings } from './Rooftops';
+import { powerUpColors } from './PowerUps';
+
+// Turns a CityLayout into THREE.js meshes. All randomness lives in the
+// generator, so building the same layout twice gives the same scene.
+// Repeated props are instanced and the road network is merged, so the
+// draw call count stays flat however many buildings and windows a city has.
+
+export function createBasketballTexture(): THREE.Texture {
+  // Create a canvas to draw the basketball texture
+  const canvas = document.createElement('canvas');
+  canvas.width = 512;
+  canvas.height = 512;
+  const context = canvas.getContext('2d');
+
+  if (context) {
+    // Fill background with orange
+    context.fillStyle = '#FF7700';
+    context.fillRect(0, 0, 512, 512);
+
+    // Draw basketball lines
+    context.strokeStyle = '#000000';
+    context.lineWidth = 5;
+
+    // Horizontal center line
+    context.beginPath();
+    context.moveTo(0, 256);
+    context.lineTo(512, 256);
+    context.stroke();
+
+    // Vertical center line
+    context.beginPath();
+    context.moveTo(256, 0);
+    context.lineTo(256, 512);
+    context.stroke();
+
+    // Draw curved lines for the basketball
+    context.beginPath();
+    context.arc(256, 256, 150, 0, Math.PI, false);
+    context.stroke();
+
+    context.beginPath();
+    context.arc(256, 256, 150, Math.PI, Math.PI * 2, false);
+    context.stroke();
+
+    // Draw more realistic basketball texture
+    context.beginPath();
+    context.arc(256, 256, 200, Math.PI / 4, Math.PI + Math.PI / 4, false);
+    context.stroke();
+
+    context.beginPath();
+    context.arc(256, 256, 200, Math.PI + Math.PI / 4, Math.PI * 2 + Math.PI / 4, false);
+    context.stroke();
+  }
+
+  const texture = new THREE.CanvasTexture(canvas);
+  return texture;
+}
+
+// The player's ball - a textured basketball, or a dull flattened one once deflated
+export function createBallMesh(radius: number, deflated: boolean): THREE.Mesh {
+  const ballGeometry = new THREE.SphereGeometry(radius, 32, 32);
+  const ballMaterial = deflated
+    ? new THREE.MeshStandardMaterial({
+        color: 0xBB5500, // Darker when deflated
+        roughness: 0.9,
+        metalness: 0.1
+      })
+    : new THREE.MeshStandardMaterial({
+        color: 0xFF7700, // Orange basketball color
+        roughness: 0.6,
+        metalness: 0.1,
+        map: createBasketballTexture()
+      });
+
+  const ball = new THREE.Mesh(ballGeometry, ballMaterial);
+  ball.castShadow = true;
+  ball.receiveShadow = true;
+
+  // Make the deflated ball look slightly flattened
+  if (deflated) {
+    ball.scale.y = 0.6;
+  }
+  ball.userData.deflated = deflated;
+
+  return ball;
+}
+
+// Same ball, see-through - used for the ghost of a previous run
+export function createGhostBallMesh(radius: number, deflated: boolean): THREE.Mesh {
+  const ball = createBallMesh(radius, deflated);
+
+  const material = ball.material as THREE.MeshStandardMaterial;
+  material.transparent = true;
+  material.opacity = 0.35;
+  material.depthWrite = false;
+
+  ball.castShadow = false;
+  ball.userData.ghost = true;
+  return ball;
+}
+
+// Scene objects the game's entities point at. Instanced meshes hold one
+// instance per layout entry, in layout order.
+export interface CitySceneObjects {
+  buildings: THREE.InstancedMesh;
+  obstacles: Record<StaticObstacleType, THREE.InstancedMesh>; // the main part of each prop
+  people: PeopleRig;
+  coins: THREE.InstancedMesh; // posed each frame with poseCoin, collected ones are hidden
+  pickups: THREE.InstancedMesh; // power-ups, posed the same way with posePickup
+  court: THREE.Group;
+}
+
+type StaticObstacleType = Exclude<ObstacleType, 'person' | 'car'>;
+
+// Instanced parts of every pedestrian, posed each frame with posePerson.
+// Arms and legs have two instances per person, left then right.
+export interface PeopleRig {
+  group: THREE.Group;
+  bodies: THREE.InstancedMesh;
+  heads: THREE.InstancedMesh;
+  arms: THREE.InstancedMesh;
+  legs: THREE.InstancedMesh;
+}
+
+// Build every static part of the city into the scene
+export function buildCityScene(scene: THREE.Scene, layout: CityLayout): CitySceneObjects {
+  createGround(scene);
+  createRoads(scene, layout);
+  createSurfaces(scene, layout);
+  createSkybox(scene);
+  addClouds(scene, layout);
+  const buildings = createCityscape(scene, layout);
+  createClimbingRoutes(scene, layout);
+  const coins = addCoins(scene, layout);
+  const pickups = addPickups(scene, layout);
+  const { nail, hydrant } = createObstacles(scene, layout);
+  const tree = addTrees(scene, layout);
+  const people = addPeople(scene, layout);
+  const court = createBasketballCourt(scene, layout);
+
+  return { buildings, obstacles: { nail, hydrant, tree }, people, coins, pickups, court };
+}
+
+function createGround(scene: THREE.Scene) {
+  // City streets
+  const groundGeometry = new THREE.PlaneGeometry(200, 200);
+  const groundMaterial = new THREE.MeshStandardMaterial({
+    color: 0x333333, // Dark asphalt
+    roughness: 0.8,
+    metalness: 0.2
+  });
+  const ground = new THREE.Mesh(groundGeometry, groundMaterial);
+  ground.rotation.x = -Math.PI / 2;
+  ground.position.y = 0;
+  ground.receiveShadow = true;
+  scene.add(ground);
+}
+
+function createSkybox(scene: THREE.Scene) {
+  const skyGeometry = new THREE.BoxGeometry(500, 500, 500);
+  const skyMaterials = [
+    new THREE.MeshBasicMaterial({ color: 0x87CEEB, side: THREE.BackSide }), // right
+    new THREE.MeshBasicMaterial({ color: 0x87CEEB, side: THREE.BackSide }), // left
+    new THREE.MeshBasicMaterial({ color: 0x4682B4, side: THREE.BackSide }), // top
+    new THREE.MeshBasicMaterial({ color: 0x8B4513, side: THREE.BackSide }), // bottom
+    new THREE.MeshBasicMaterial({ color: 0x87CEEB, side: THREE.BackSide }), // front
+    new THREE.MeshBasicMaterial({ color: 0x87CEEB, side: THREE.BackSide })  // back
+  ];
+  const skybox = new THREE.Mesh(skyGeometry, skyMaterials);
+  scene.add(skybox);
+}
+
+function createRoads(scene: THREE.Scene, layout: CityLayout) {
+  const roadMaterial = new THREE.MeshStandardMaterial({
+    color: 0x444444, // Darker asphalt for roads
+    roughness: 0.7,
+    metalness: 0.3
+  });
+  const lineMaterial = new THREE.MeshBasicMaterial({
+    color: 0xFFFFFF
+  });
+
+  const roadGeometries: THREE.BufferGeometry[] = [];
+  const lineGeometries: THREE.BufferGeometry[] = [];
+
+  for (const roadLayout of layout.roads) {
+    roadGeometries.push(
+      new THREE.PlaneGeometry(roadLayout.width, roadLayout.depth)
+        .rotateX(-Math.PI / 2)
+        .translate(roadLayout.x, 0.01, roadLayout.z) // Slightly above ground
+    );
+
+    // White line along the length of the road
+    const horizontal = roadLayout.width >= roadLayout.depth;
+    const lineGeometry = horizontal
+      ? new THREE.PlaneGeometry(roadLayout.width, 0.5)
+      : new THREE.PlaneGeometry(0.5, roadLayout.depth);
+
+    lineGeometries.push(
+      lineGeometry
+        .rotateX(-Math.PI / 2)
+        .translate(roadLayout.x, 0.02, roadLayout.z) // Slightly above road
+    );
+  }
+
+  // Roads never move, so the whole network is baked into one mesh per material
+  const roads = createMergedMesh(roadGeometries, roadMaterial);
+  if (roads) {
+    roads.receiveShadow = true;
+    scene.add(roads);
+  }
+
+  const lines = createMergedMesh(lineGeometries, lineMaterial);
+  if (lines) {
+    scene.add(lines);
+  }
+}
+
+// Painted patches, one merged mesh per surface type
+function createSurfaces(scene: THREE.Scene, layout: CityLayout) {
+  const geometries = new Map<SurfaceType, THREE.BufferGeometry[]>();
+
+  for (const surface of layout.surfaces) {
+    // Just above the road markings, or the roof it was painted on
+    const height = surfaceHeight(surface, layout.buildings) + 0.03;
+    const geometry = new THREE.PlaneGeometry(surface.width, surface.depth)
+      .rotateX(-Math.PI / 2)
+      .translate(surface.x, height, surface.z);
+
+    geometries.set(surface.type, [...(geometries.get(surface.type) ?? []), geometry]);
+  }
+
+  geometries.forEach((pieces, type) => {
+    const material = new THREE.MeshStandardMaterial({
+      color: surfaceColors[type],
+      roughness: type === 'puddle' ? 0.1 : 0.9, // Puddles shine
+      metalness: type === 'puddle' ? 0.5 : 0.1,
+      transparent: type === 'puddle',
+      opacity: type === 'puddle' ? 0.8 : 1
+    });
+
+    const mesh = createMergedMesh(pieces, material);
+    if (mesh) {
+      mesh.receiveShadow = true;
+      scene.add(mesh);
+    }
+  });
+}
+
+function createCityscape(scene: THREE.Scene, layout: CityLayout): THREE.InstancedMesh {
+  // One unit box, scaled and tinted per building
+  const buildingGeometry = new THREE.BoxGeometry(1, 1, 1);
+  const buildingMaterial = new THREE.MeshStandardMaterial({
+    roughness: 0.7,
+    metalness: 0.2
+  });
+
+  const buildings = createInstancedMesh(
+    buildingGeometry,
+    buildingMaterial,
+    layout.buildings.map(({ x, z, width, height, depth }) =>
+      composeMatrix(x, height / 2, z, noRotation, new THREE.Vector3(width, height, depth))
+    ),
+    layout.buildings.map(({ color }) => new THREE.Color(color))
+  );
+  buildings.castShadow = true;
+  buildings.receiveShadow = true;
+  scene.add(buildings);
+
+  addWindows(scene, layout.buildings);
+  return buildings;
+}
+
+// Ramps, awnings and fire escapes never move, so they're merged like the roads
+function createClimbingRoutes(scene: THREE.Scene, layout: CityLayout) {
+  const { platformThickness } = rooftopSettings;
+  const ramps: THREE.BufferGeometry[] = [];
+  const awnings: THREE.BufferGeometry[] = [];
+  const landings: THREE.BufferGeometry[] = [];
+
+  for (const building of layout.buildings) {
+    if (!building.fireEscape) continue;
+
+    const route = climbingRoute(building, building.fireEscape);
+    ramps.push(createRampGeometry(route.ramp));
+    for (const platform of route.platforms) {
+      const geometry = new THREE.BoxGeometry(platform.width, platformThickness, platform.depth)
+        .translate(platform.x, platform.height - platformThickness / 2, platform.z);
+      (platform.kind === 'awning' ? awnings : landings).push(geometry);
+    }
+  }
+
+  const parts: [THREE.BufferGeometry[], number][] = [
+    [ramps, 0x8A8A80], // Concrete
+    [awnings, 0xB03A2E], // Red canvas
+    [landings, 0x2F2F35], // Iron
+  ];
+  for (const [geometries, color] of parts) {
+    const mesh = createMergedMesh(geometries, new THREE.MeshStandardMaterial({ color, roughness: 0.8, metalness: 0.2 }));
+    if (mesh) {
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+      scene.add(mesh);
+    }
+  }
+}
+
+// A box with the top edge at the low end dropped to the ground
+function createRampGeometry(ramp: RampLayout): THREE.BufferGeometry {
+  const geometry = new THREE.BoxGeometry(ramp.width, ramp.height, ramp.depth)
+    .translate(ramp.x, ramp.height / 2, ramp.z);
+  const length = ramp.axis === 'x' ? ramp.width : ramp.depth;
+  const lowEnd = ramp[ramp.axis] - ramp.direction * length / 2;
+
+  const positions = geometry.getAttribute('position') as THREE.BufferAttribute;
+  for (let i = 0; i < positions.count; i++) {
+    const along = ramp.axis === 'x' ? positions.getX(i) : positions.getZ(i);
+    if (positions.getY(i) > 0 && Math.abs(along - lowEnd) < 0.001) {
+      positions.setY(i, 0);
+    }
+  }
+  geometry.computeVertexNormals();
+  return geometry;
+}
+
+function addCoins(scene: THREE.Scene, layout: CityLayout): THREE.InstancedMesh {
+  const coinMaterial = new THREE.MeshStandardMaterial({
+    color: 0xFFD700, // Gold
+    emissive: 0x664400, // Catches the eye against a grey roof
+    roughness: 0.3,
+    metalness: 0.9
+  });
+
+  const coins = createInstancedMesh(
+    new THREE.CylinderGeometry(rooftopSettings.coinRadius, rooftopSettings.coinRadius, 0.1, 16).rotateX(Math.PI / 2),
+    coinMaterial,
+    layout.coins.map(({ x, y, z }) => composeMatrix(x, y, z))
+  );
+  coins.castShadow = true;
+  scene.add(coins);
+  return coins;
+}
+
+const coinMatrix = new THREE.Matrix4();
+const hiddenScale = new THREE.Vector3(0, 0, 0);
+
+// Place one coin, or hide it once collected. Works for any instanced prop.
+export function poseCoin(mesh: THREE.InstancedMesh, index: number, position: THREE.Vector3, collected: boolean) {
+  coinMatrix.compose(position, noRotationQuaternion, collected ? hiddenScale : unitScale);
+  mesh.setMatrixAt(index, coinMatrix);
+  mesh.instanceMatrix.needsUpdate = true;
+}
+
+// A gem per power-up, tinted by kind
+function addPickups(scene: THREE.Scene, layout: CityLayout): THREE.InstancedMesh {
+  const pickupMaterial = new THREE.MeshStandardMaterial({
+    emissive: 0x333333, // Glows a little, even in shadow
+    roughness: 0.2,
+    metalness: 0.5
+  });
+
+  const pickups = createInstancedMesh(
+    new THREE.OctahedronGeometry(0.4),
+    pickupMaterial,
+    layout.powerUps.map(({ x, y, z }) => composeMatrix(x, y, z)),
+    layout.powerUps.map(({ type }) => new THREE.Color(powerUpColors[type]))
+  );
+  pickups.castShadow = true;
+  scene.add(pickups);
+  return pickups;
+}
+
+// Place one pickup, or hide it while it's waiting to come back
+export function posePickup(mesh: THREE.InstancedMesh, index: number, position: THREE.Vector3, available: boolean) {
+  poseCoin(mesh, index, position, !available);
+}
+
+function addWindows(scene: THREE.Scene, buildings: BuildingLayout[]) {
+  // Window material - glowing blue at night
+  const windowGeometry = new THREE.PlaneGeometry(0.5, 0.5);
+  const windowMaterial = new THREE.MeshBasicMaterial({
+    color: 0x88CCFF,
+    transparent: true,
+    opacity: 0.8
+  });
+
+  const windows: THREE.Matrix4[] = [];
+  for (const building of buildings) {
+    addBuildingWindows(windows, building);
+  }
+
+  scene.add(createInstancedMesh(windowGeometry, windowMaterial, windows));
+}
+
+// Place every window of one building, all four faces
+function addBuildingWindows(windows: THREE.Matrix4[], building: BuildingLayout) {
+  const { width, height, depth } = building;
+
+  // Window spacing
+  const windowSpacingH = 1.2;
+  const windowSpacingV = 1.5;
+
+  // Calculate number of windows based on building dimensions
+  const windowsPerFloor = {
+    x: Math.floor(width / windowSpacingH) - 1,
+    z: Math.floor(depth / windowSpacingH) - 1
+  };
+
+  const floors = Math.floor(height / windowSpacingV) - 1;
+
+  // Position of the building
+  const bx = building.x;
+  const by = height / 2;
+  const bz = building.z;
+
+  // Add windows on each face of the building
+  for (let floor = 0; floor < floors; floor++) {
+    const y = -height/2 + windowSpacingV + floor * windowSpacingV;
+
+    // Windows on X faces (front and back)
+    for (let wx = 0; wx < windowsPerFloor.x; wx++) {
+      const x = -width/2 + windowSpacingH + wx * windowSpacingH;
+
+      windows.push(composeMatrix(bx + x, by + y, bz + depth/2 + 0.01)); // Front face
+      windows.push(composeMatrix(bx + x, by + y, bz - depth/2 - 0.01, new THREE.Euler(0, Math.PI, 0))); // Back face
+    }
+
+    // Windows on Z faces (left and right)
+    for (let wz = 0; wz < windowsPerFloor.z; wz++) {
+      const z = -depth/2 + windowSpacingH + wz * windowSpacingH;
+
+      windows.push(composeMatrix(bx + width/2 + 0.01, by + y, bz + z, new THREE.Euler(0, Math.PI / 2, 0))); // Right face
+      windows.push(composeMatrix(bx - width/2 - 0.01, by + y, bz + z, new THREE.Euler(0, -Math.PI / 2, 0))); // Left face
+    }
+  }
+}
+
+// Returns the trunks, one per tree
+function addTrees(scene: THREE.Scene, layout: CityLayout): THREE.InstancedMesh {
+  const trunkMaterial = new THREE.MeshStandardMaterial({
+    color: 0x8B4513, // Brown
+    roughness: 0.8,
+    metalness: 0.2
+  });
+  const pineMaterial = new THREE.MeshStandardMaterial({
+    color: 0x2E8B57, // Dark green
+    roughness: 0.8,
+    metalness: 0.1
+  });
+  const deciduousMaterial = new THREE.MeshStandardMaterial({
+    color: 0x32CD32, // Light green
+    roughness: 0.8,
+    metalness: 0.1
+  });
+
+  const pines = layout.trees.filter(tree => tree.kind === 'conical');
+  const deciduous = layout.trees.filter(tree => tree.kind !== 'conical');
+
+  const parts = [
+    // Tree trunks
+    createInstancedMesh(
+      new THREE.CylinderGeometry(0.3, 0.4, 2, 8),
+      trunkMaterial,
+      layout.trees.map(({ x, z }) => composeMatrix(x, 1, z))
+    ),
+    // Pine tree foliage
+    createInstancedMesh(
+      new THREE.ConeGeometry(1.5, 4, 8),
+      pineMaterial,
+      pines.map(({ x, z }) => composeMatrix(x, 4, z))
+    ),
+    // Deciduous tree foliage
+    createInstancedMesh(
+      new THREE.SphereGeometry(1.5, 8, 8),
+      deciduousMaterial,
+      deciduous.map(({ x, z }) => composeMatrix(x, 3.5, z))
+    )
+  ];
+
+  for (const part of parts) {
+    part.castShadow = true;
+    part.receiveShadow = true;
+    scene.add(part);
+  }
+
+  return parts[0];
+}
+
+function addPeople(scene: THREE.Scene, layout: CityLayout): PeopleRig {
+  // Simple person model - body and arms tinted per person, a head and two legs
+  const clothesMaterial = new THREE.MeshStandardMaterial({
+    roughness: 0.8,
+    metalness: 0.2
+  });
+  const headMaterial = new THREE.MeshStandardMaterial({
+    color: 0xFFD700, // Tan
+    roughness: 0.8,
+    metalness: 0.1
+  });
+  const trousersMaterial = new THREE.MeshStandardMaterial({
+    color: 0x333344, // Dark blue-gray
+    roughness: 0.8,
+    metalness: 0.1
+  });
+
+  // Limbs swing from the top, so their geometry hangs below the origin
+  const armGeometry = new THREE.CylinderGeometry(0.06, 0.06, limbSizes.armLength, 6)
+    .translate(0, -limbSizes.armLength / 2, 0);
+  const legGeometry = new THREE.CylinderGeometry(0.08, 0.08, limbSizes.legLength, 6)
+    .translate(0, -limbSizes.legLength / 2, 0);
+
+  const count = layout.people.length;
+  const colors = layout.people.map(({ color }) => new THREE.Color(color));
+
+  const rig: PeopleRig = {
+    group: new THREE.Group(),
+    bodies: createPeoplePart(new THREE.CylinderGeometry(0.2, 0.25, 0.7, 8), clothesMaterial, count, colors),
+    heads: createPeoplePart(new THREE.SphereGeometry(0.2, 16, 16), headMaterial, count),
+    arms: createPeoplePart(armGeometry, clothesMaterial, count * 2, colors.flatMap(color => [color, color])),
+    legs: createPeoplePart(legGeometry, trousersMaterial, count * 2)
+  };
+  rig.group.add(rig.bodies, rig.heads, rig.arms, rig.legs);
+
+  // Standing still until the simulation says otherwise
+  layout.people.forEach(({ x, z }, index) => {
+    posePerson(rig, index, new THREE.Vector3(x, 0, z), 0, 0);
+  });
+
+  scene.add(rig.group);
+  return rig;
+}
+
+const limbSizes = {
+  armLength: 0.55,
+  legLength: 0.6,
+  shoulderHeight: 1.25,
+  shoulderWidth: 0.28,
+  hipWidth: 0.12
+};
+
+function createPeoplePart(
+  geometry: THREE.BufferGeometry,
+  material: THREE.Material,
+  count: number,
+  colors?: THREE.Color[]
+): THREE.InstancedMesh {
+  const mesh = createInstancedMesh(geometry, material, Array.from({ length: count }, () => new THREE.Matrix4()), colors);
+
+  // Matrices are rewritten every frame
+  mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+  return mesh;
+}
+
+const personMatrix = new THREE.Matrix4();
+const partMatrix = new THREE.Matrix4();
+const swingMatrix = new THREE.Matrix4();
+const headingRotation = new THREE.Quaternion();
+const yAxis = new THREE.Vector3(0, 1, 0);
+
+// Place one person, facing heading (radians around y, 0 is +z) with arms
+// and legs swung forwards and back by swing radians
+export function posePerson(rig: PeopleRig, index: number, position: THREE.Vector3, heading: number, swing: number) {
+  headingRotation.setFromAxisAngle(yAxis, heading);
+  personMatrix.compose(position, headingRotation, unitScale);
+
+  const setPart = (mesh: THREE.InstancedMesh, instance: number, x: number, y: number, angle: number) => {
+    partMatrix.makeTranslation(x, y, 0).multiply(swingMatrix.makeRotationX(angle));
+    mesh.setMatrixAt(instance, partMatrix.premultiply(personMatrix));
+  };
+
+  setPart(rig.bodies, index, 0, 0.95, 0);
+  setPart(rig.heads, index, 0, 1.5, 0);
+
+  // Each arm swings against the leg on its side
+  [-1, 1].forEach((side, sideIndex) => {
+    setPart(rig.arms, index * 2 + sideIndex, side * limbSizes.shoulderWidth, limbSizes.shoulderHeight, -side * swing);
+    setPart(rig.legs, index * 2 + sideIndex, side * limbSizes.hipWidth, limbSizes.legLength, side * swing);
+  });
+
+  for (const mesh of [rig.bodies, rig.heads, rig.arms, rig.legs]) {
+    mesh.instanceMatrix.needsUpdate = true;
+  }
+}
+
+// Instanced parts of every car, posed each frame with poseCar. Wheels have
+// four instances per car. Built separately from the city because how many
+// cars there are depends on the traffic density, not the layout.
+export interface CarRig {
+  group: THREE.Group;
+  bodies: THREE.InstancedMesh;
+  cabins: THREE.InstancedMesh;
+  wheels: THREE.InstancedMesh;
+}
+
+const carColors = [0xCC2222, 0x2255CC, 0xEEEEEE, 0x222222, 0xDDAA22, 0x339944];
+
+export function addCars(scene: THREE.Scene, count: number): CarRig {
+  const { length, width, height } = carSizes;
+
+  const bodyMaterial = new THREE.MeshStandardMaterial({
+    roughness: 0.4,
+    metalness: 0.6
+  });
+  const cabinMaterial = new THREE.MeshStandardMaterial({
+    color: 0x223344, // Tinted glass
+    roughness: 0.1,
+    metalness: 0.8
+  });
+  const wheelMaterial = new THREE.MeshStandardMaterial({
+    color: 0x111111,
+    roughness: 0.9,
+    metalness: 0.1
+  });
+
+  const colors = Array.from({ length: count }, (_, index) => new THREE.Color(carColors[index % carColors.length]));
+  const wheelGeometry = new THREE.CylinderGeometry(carSizes.wheelRadius, carSizes.wheelRadius, 0.3, 12)
+    .rotateZ(Math.PI / 2);
+
+  const rig: CarRig = {
+    group: new THREE.Group(),
+    bodies: createPeoplePart(new THREE.BoxGeometry(width, height * 0.5, length), bodyMaterial, count, colors),
+    cabins: createPeoplePart(new THREE.BoxGeometry(width * 0.9, height * 0.4, length * 0.5), cabinMaterial, count),
+    wheels: createPeoplePart(wheelGeometry, wheelMaterial, count * 4)
+  };
+  rig.group.add(rig.bodies, rig.cabins, rig.wheels);
+
+  scene.add(rig.group);
+  return rig;
+}
+
+// Matches the traffic's collision box, see trafficSettings
+const carSizes = {
+  length: 4,
+  width: 2,
+  height: 1.5,
+  wheelRadius: 0.35
+};
+
+const carMatrix = new THREE.Matrix4();
+
+// Place one car, on the ground and facing heading (radians around y, 0 is +z)
+export function poseCar(rig: CarRig, index: number, position: THREE.Vector3, heading: number) {
+  const { length, width, height, wheelRadius } = carSizes;
+
+  headingRotation.setFromAxisAngle(yAxis, heading);
+  carMatrix.compose(position, headingRotation, unitScale);
+
+  const setPart = (mesh: THREE.InstancedMesh, instance: number, x: number, y: number, z: number) => {
+    partMatrix.makeTranslation(x, y, z);
+    mesh.setMatrixAt(instance, partMatrix.premultiply(carMatrix));
+  };
+
+  setPart(rig.bodies, index, 0, wheelRadius + height * 0.25, 0);
+  setPart(rig.cabins, index, 0, wheelRadius + height * 0.7, -length * 0.1);
+
+  [[-1, -1], [1, -1], [-1, 1], [1, 1]].forEach(([side, end], wheel) => {
+    setPart(rig.wheels, index * 4 + wheel, side * width / 2, wheelRadius, end * length * 0.3);
+  });
+
+  for (const mesh of [rig.bodies, rig.cabins, rig.wheels]) {
+    mesh.instanceMatrix.needsUpdate = true;
+  }
+}
+
+// Returns the nails and the hydrant bodies
+function createObstacles(scene: THREE.Scene, layout: CityLayout): { nail: THREE.InstancedMesh; hydrant: THREE.InstancedMesh } {
+  // Nails/spikes that will deflate the ball - cone shape pointing up
+  const nailMaterial = new THREE.MeshStandardMaterial({
+    color: 0xAAAAAA, // Steel gray
+    roughness: 0.3,
+    metalness: 0.8
+  });
+
+  const nails = createInstancedMesh(
+    new THREE.ConeGeometry(0.3, 1, 8),
+    nailMaterial,
+    layout.nails.map(({ x, z }) => composeMatrix(x, 0.5, z, new THREE.Euler(Math.PI, 0, 0)))
+  );
+  nails.castShadow = true;
+  scene.add(nails);
+
+  // Fire hydrants near the sidewalks
+  const bodyMaterial = new THREE.MeshStandardMaterial({
+    color: 0xFF0000, // Red
+    roughness: 0.7,
+    metalness: 0.3
+  });
+  const capMaterial = new THREE.MeshStandardMaterial({
+    color: 0xDDDDDD, // Silver
+    roughness: 0.5,
+    metalness: 0.8
+  });
+
+  const { hydrants } = layout;
+
+  // Main body
+  const hydrantBodies = createInstancedMesh(
+    new THREE.CylinderGeometry(0.3, 0.3, 1, 8),
+    bodyMaterial,
+    hydrants.map(({ x, z }) => composeMatrix(x, 0.5, z))
+  );
+  scene.add(hydrantBodies);
+
+  // Top cap
+  scene.add(createInstancedMesh(
+    new THREE.CylinderGeometry(0.35, 0.35, 0.2, 8),
+    capMaterial,
+    hydrants.map(({ x, z }) => composeMatrix(x, 1.1, z))
+  ));
+
+  // Side nozzles, two per hydrant
+  scene.add(createInstancedMesh(
+    new THREE.CylinderGeometry(0.1, 0.1, 0.3, 8),
+    capMaterial,
+    hydrants.flatMap(({ x, z }) => [
+      composeMatrix(x + 0.3, 0.8, z, new THREE.Euler(0, 0, Math.PI / 2)),
+      composeMatrix(x, 0.8, z + 0.3, new THREE.Euler(Math.PI / 2, 0, 0))
+    ])
+  ));
+
+  return { nail: nails, hydrant: hydrantBodies };
+}
+
+function createBasketballCourt(scene: THREE.Scene, layout: CityLayout): THREE.Group {
+  const { goal } = layout;
+  const courtGroup = new THREE.Group();
+
+  // Court floor - orange/brown hardwood
+  const courtGeometry = new THREE.PlaneGeometry(courtSize, courtSize);
+  const courtMaterial = new THREE.MeshStandardMaterial({
+    color: surfaceColors.hardwood,
+    roughness: 0.8,
+    metalness: 0.1
+  });
+
+  const court = new THREE.Mesh(courtGeometry, courtMaterial);
+  court.rotation.x = -Math.PI / 2;
+  court.position.set(goal.x, 0.01, goal.z); // Slightly above ground
+  court.receiveShadow = true;
+  courtGroup.add(court);
+
+  // Court markings - white lines
+  const lineGeometry = new THREE.PlaneGeometry(14, 0.1);
+  const lineMaterial = new THREE.MeshBasicMaterial({ color: 0xFFFFFF });
+
+  // Outer boundary lines
+  for (let i = 0; i < 4; i++) {
+    const line = new THREE.Mesh(i % 2 === 0 ? lineGeometry : new THREE.PlaneGeometry(0.1, 14), lineMaterial);
+    line.rotation.x = -Math.PI / 2;
+
+    switch(i) {
+      case 0: // Top
+        line.position.set(goal.x, 0.02, goal.z - 7);
+        break;
+      case 1: // Right
+        line.position.set(goal.x + 7, 0.02, goal.z);
+        break;
+      case 2: // Bottom
+        line.position.set(goal.x, 0.02, goal.z + 7);
+        break;
+      case 3: // Left
+        line.position.set(goal.x - 7, 0.02, goal.z);
+        break;
+    }
+
+    courtGroup.add(line);
+  }
+
+  // Basketball hoop and backboard
+  const backboardGeometry = new THREE.BoxGeometry(4, 3, 0.2);
+  const backboardMaterial = new THREE.MeshStandardMaterial({
+    color: 0xFFFFFF,
+    roughness: 0.9,
+    metalness: 0.1
+  });
+
+  const backboard = new THREE.Mesh(backboardGeometry, backboardMaterial);
+  backboard.position.set(goal.x, 5, goal.z - 7);
+  backboard.castShadow = true;
+  courtGroup.add(backboard);
+
+  // Red target box on backboard
+  const targetGeometry = new THREE.BoxGeometry(1, 0.8, 0.21);
+  const targetMaterial = new THREE.MeshStandardMaterial({ color: 0xFF0000 });
+  const target = new THREE.Mesh(targetGeometry, targetMaterial);
+  target.position.set(goal.x, 5, goal.z - 7.05);
+  courtGroup.add(target);
+
+  // Hoop
+  const hoopGeometry = new THREE.TorusGeometry(0.7, 0.05, 16, 32);
+  const hoopMaterial = new THREE.MeshStandardMaterial({
+    color: 0xFF4500,
+    metalness: 0.8,
+    roughness: 0.3
+  });
+
+  const hoop = new THREE.Mesh(hoopGeometry, hoopMaterial);
+  hoop.position.set(goal.x, 3.5, goal.z - 5.8);
+  hoop.rotation.x = Math.PI / 2;
+  hoop.castShadow = true;
+  courtGroup.add(hoop);
+
+  // Pole
+  const poleGeometry = new THREE.CylinderGeometry(0.1, 0.1, 5, 8);
+  const poleMaterial = new THREE.MeshStandardMaterial({
+    color: 0x888888,
+    metalness: 0.8,
+    roughness: 0.2
+  });
+
+  const pole = new THREE.Mesh(poleGeometry, poleMaterial);
+  pole.position.set(goal.x, 2.5, goal.z - 7);
+  pole.castShadow = true;
+  courtGroup.add(pole);
+
+  scene.add(courtGroup);
+  return courtGroup;
+}
+
+function addClouds(scene: THREE.Scene, layout: CityLayout) {
+  const cloudGeometry = new THREE.SphereGeometry(1, 16, 16);
+  const cloudMaterial = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    transparent: true,
+    opacity: 0.8
+  });
+
+  // Combine spheres into a cloud shape, every puff of every cloud in one draw
+  const puffs = layout.clouds.flatMap(cloud => cloud.puffs.map(puff => composeMatrix(
+    cloud.x + puff.position.x,
+    cloud.y + puff.position.y,
+    cloud.z + puff.position.z,
+    noRotation,
+    new THREE.Vector3(puff.scale.x, puff.scale.y, puff.scale.z)
+  )));
+
+  scene.add(createInstancedMesh(cloudGeometry, cloudMaterial, puffs));
+}
+
+const noRotation = new THREE.Euler();
+const unitScale = new THREE.Vector3(1, 1, 1);
+const noRotationQuaternion = new THREE.Quaternion();
+
+function composeMatrix(
+  x: number,
+  y: number,
+  z: number,
+  rotation: THREE.Euler = noRotation,
+  scale: THREE.Vector3 = unitScale
+): THREE.Matrix4 {
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(x, y, z),
+    new THREE.Quaternion().setFromEuler(rotation),
+    scale
+  );
+}
+
+// Many copies of one shape drawn in a single call, optionally tinted one by one
+function createInstancedMesh(
+  geometry: THREE.BufferGeometry,
+  material: THREE.Material,
+  matrices: THREE.Matrix4[],
+  colors?: THREE.Color[]
+): THREE.InstancedMesh {
+  const mesh = new THREE.InstancedMesh(geometry, material, matrices.length);
+  matrices.forEach((matrix, index) => mesh.setMatrixAt(index, matrix));
+  colors?.forEach((color, index) => mesh.setColorAt(index, color));
+
+  // Culling would test the shape's own bounds at the origin, not where the copies are
+  mesh.frustumCulled = false;
+  return mesh;
+}
+
+// Bake already-positioned static pieces into one mesh, or null if there are none
+function createMergedMesh(geometries: THREE.BufferGeometry[], material: THREE.Material): THREE.Mesh | null {
+  if (geometries.length === 0) return null;
+
+  const merged = mergeGeometries(geometries);
+  for (const geometry of geometries) {
+    geometry.dispose();
+  }
+  return new THREE.Mesh(merged, material);
+}
@@ -0,0 +1,638 @@
+import * as THREE from 'three';
+import { ScoreState, applyScoreEvents, createScoreState } from './ScoreSystem';
+import { SpatialGrid, createSpatialGrid, queryGrid } from './SpatialGrid';
+import { Pedestrian, PedestrianSpawn, Walkway, createPedestrians, stepPedestrians } from './Pedestrians';
+import { TrafficState, createTraffic, stepTraffic, trafficSettings } from './Traffic';
+import { canPushOff, hitWall, integrateBall, landOn } from './BallPhysics';
+import { SurfaceType, WorldSurface, surfaceAt } from './Surfaces';
+import {
+  Pickup,
+  PowerUpEffects,
+  PowerUpSpawn,
+  PowerUpType,
+  TimedPowerUpType,
+  applyPowerUpEffects,
+  createPickups,
+  createPowerUpEffects,
+  isPowerUpActive,
+  stepPowerUps
+} from './PowerUps';
+import { Difficulty, cityDifficulties, jumpHeightScale } from './Difficulty';
+import { Coin, WorldRamp, createCoins, isNearRamp, rampHeightAt, rampNormal, rooftopSettings } from './Rooftops';
+
+// Headless simulation of the 3D city game. Nothing in here touches React,
+// the DOM or WebGL, so it can be stepped in Node for tests, bots and replays.
+
+// Physics tuning, in units per tick at TICKS_PER_SECOND. The host must step
+// the simulation at that fixed rate (see FixedTimestep) for consistent speed.
+// How the ball moves and bounces is tuned in ballPhysics, and its gravity
+// and jump force come with the world's difficulty.
+export const simulationSettings = {
+  ballRadius: 0.5,
+  deflatedRadiusRatio: 0.8,
+  powerBounceWindow: 18, // ticks, roughly 300ms at 60 ticks per second
+  maxConsecutiveJumps: 3,
+  goalRadius: 7,
+  nearMissDistance: 1, // clearance around a nail that still counts as a near-miss
+  groundCellSize: 1, // distance is measured in ground cells visited for the first time
+  broadPhaseCellSize: 8, // about one building wide
+  safeFallHeight: 16, // drops further than this flatten the ball, a triple power bounce stays just under
+};
+
+export type ObstacleType = 'nail' | 'hydrant' | 'tree' | 'person' | 'car';
+
+// Obstacle as seen by the simulation - static, or a pedestrian's or car's moving bounds
+export interface WorldObstacle {
+  type: ObstacleType;
+  dangerous: boolean;
+  bounds: THREE.Box3;
+}
+
+// Grids over the building, platform, ramp and obstacle bounds, indexing into the world's lists
+export interface WorldBroadPhase {
+  buildings: SpatialGrid;
+  platforms: SpatialGrid;
+  ramps: SpatialGrid;
+  obstacles: SpatialGrid;
+}
+
+// Grids over the pedestrians' and cars' bounds, indexing into the simulation
+// state's lists. They move, so these are built again every tick, once the
+// people have walked, and the cars' is kept up to date as they drive.
+export interface ActorBroadPhase {
+  pedestrians: SpatialGrid;
+  cars: SpatialGrid;
+}
+
+// Everything the simulation needs to know about a map
+export interface WorldDescription {
+  buildings: THREE.Box3[];
+  obstacles: WorldObstacle[]; // static only, pedestrians and cars move and live in the simulation state
+  walkways: Walkway[]; // the roads, walked by people and driven by cars
+  pedestrians: PedestrianSpawn[];
+  trafficDensity: number; // cars per 100 units of lane, see cityDifficulties
+  surfaces: WorldSurface[]; // painted patches, anywhere else is asphalt
+  platforms: THREE.Box3[]; // awnings and fire escape landings, solid like buildings
+  ramps: WorldRamp[];
+  coins: THREE.Vector3[]; // where they start, the simulation state holds the ones left
+  powerUps: PowerUpSpawn[];
+  difficulty: Difficulty;
+  broadPhase: WorldBroadPhase;
+  startPosition: THREE.Vector3;
+  goalPosition: THREE.Vector3;
+}
+
+// Static bounds are fixed for the life of a world, so the broad-phase is built once here
+export function createWorld(parts: Omit<WorldDescription, 'broadPhase'>): WorldDescription {
+  const cellSize = simulationSettings.broadPhaseCellSize;
+
+  return {
+    ...parts,
+    broadPhase: {
+      buildings: createSpatialGrid(parts.buildings, cellSize),
+      platforms: createSpatialGrid(parts.platforms, cellSize),
+      ramps: createSpatialGrid(parts.ramps.map(ramp => ramp.bounds), cellSize),
+      obstacles: createSpatialGrid(parts.obstacles.map(obstacle => obstacle.bounds), cellSize)
+    }
+  };
+}
+
+export function createActorBroadPhase(state: SimulationState): ActorBroadPhase {
+  const cellSize = simulationSettings.broadPhaseCellSize;
+
+  return {
+    pedestrians: createSpatialGrid(state.pedestrians.map(pedestrian => pedestrian.obstacle.bounds), cellSize),
+    cars: createSpatialGrid(state.traffic.cars.map(car => car.obstacle.bounds), cellSize)
+  };
+}
+
+export interface SimulationBall {
+  position: THREE.Vector3;
+  velocity: THREE.Vector3;
+  angularVelocity: THREE.Vector3; // radians per tick, around the axis it points along
+  orientation: THREE.Quaternion; // how far the ball has turned, for drawing the texture
+  input: THREE.Vector3; // held move direction, -1 to 1 on x and z, a stick can hold less than all the way
+  radius: number;
+  normalRadius: number;
+  onGround: boolean;
+  lastContactTick: number; // last tick it touched down on the ground or a roof
+  fallStart: number; // highest point since it last touched down, see touchDown
+  surface: SurfaceType; // what it last touched down on
+  jumpForce: number;
+  gravity: number;
+  speedMultiplier: number; // on acceleration and top speed, from the difficulty and applyPowerUpEffects
+  consecutiveJumps: number;
+  lastJumpTick: number;
+  deflated: boolean;
+}
+
+export interface SimulationState {
+  tick: number;
+  ball: SimulationBall;
+  score: ScoreState;
+  mazeCompleted: boolean;
+  nearObstacles: Set<WorldObstacle>; // nails the ball is brushing past right now
+  missedObstacles: Set<WorldObstacle>; // nails already scored as near-misses
+  visitedCells: Set<string>; // ground already covered, see trackDistance
+  pedestrians: Pedestrian[];
+  traffic: TrafficState;
+  coins: Coin[];
+  pickups: Pickup[];
+  effects: PowerUpEffects;
+}
+
+// Input stream entries, applied at the start of the tick they arrive on
+export type SimulationCommand =
+  | { type: 'bounce' }
+  | { type: 'move'; axis: 'x' | 'z'; direction: number } // -1 to 1, in between from a stick, 0 lets go of the axis
+  | { type: 'stop' };
+
+// Things that happened during a tick, for the host to turn into sound and UI
+export type SimulationEvent =
+  | { type: 'bounce'; level: number }
+  | { type: 'bounceBlocked' }
+  | { type: 'deflated'; obstacle: WorldObstacle | null } // null when a long fall did it
+  | { type: 'coinCollected'; coin: number }
+  | { type: 'powerUpCollected'; powerUp: PowerUpType }
+  | { type: 'powerUpExpired'; powerUp: TimedPowerUpType }
+  | { type: 'carHit'; popped: boolean }
+  | { type: 'nearMiss'; obstacle: WorldObstacle }
+  | { type: 'travelled'; distance: number }
+  | { type: 'courtReached'; deflated: boolean };
+
+export function createSimulationState(world: WorldDescription): SimulationState {
+  const physics = cityDifficulties[world.difficulty];
+
+  return {
+    tick: 0,
+    ball: {
+      position: world.startPosition.clone(),
+      velocity: new THREE.Vector3(0, 0, 0),
+      angularVelocity: new THREE.Vector3(0, 0, 0),
+      orientation: new THREE.Quaternion(),
+      input: new THREE.Vector3(0, 0, 0),
+      radius: simulationSettings.ballRadius,
+      normalRadius: simulationSettings.ballRadius,
+      onGround: true,
+      lastContactTick: 0,
+      fallStart: world.startPosition.y,
+      surface: surfaceAt(world, world.startPosition.x, world.startPosition.z, 0),
+      jumpForce: physics.jumpForce,
+      gravity: physics.gravity,
+      speedMultiplier: physics.speedScale,
+      consecutiveJumps: 0,
+      lastJumpTick: 0,
+      deflated: false
+    },
+    score: createScoreState(),
+    mazeCompleted: false,
+    nearObstacles: new Set(),
+    missedObstacles: new Set(),
+    visitedCells: new Set([groundCellKey(world.startPosition)]),
+    pedestrians: createPedestrians(world),
+    traffic: createTraffic(world),
+    coins: createCoins(world.coins),
+    pickups: createPickups(world),
+    effects: createPowerUpEffects()
+  };
+}
+
+const cloneObstacle = (obstacle: WorldObstacle): WorldObstacle => ({ ...obstacle, bounds: obstacle.bounds.clone() });
+
+// An independent copy to carry on from, e.g. a replay snapshot to seek back
+// to. The world's own obstacles are shared, they never change.
+export function cloneSimulationState(state: SimulationState): SimulationState {
+  const { ball, score, traffic } = state;
+
+  return {
+    ...state,
+    ball: {
+      ...ball,
+      position: ball.position.clone(),
+      velocity: ball.velocity.clone(),
+      angularVelocity: ball.angularVelocity.clone(),
+      orientation: ball.orientation.clone(),
+      input: ball.input.clone()
+    },
+    score: { ...score, breakdown: { ...score.breakdown } },
+    nearObstacles: new Set(state.nearObstacles),
+    missedObstacles: new Set(state.missedObstacles),
+    visitedCells: new Set(state.visitedCells),
+    pedestrians: state.pedestrians.map(pedestrian =>
+      ({ ...pedestrian, position: pedestrian.position.clone(), obstacle: cloneObstacle(pedestrian.obstacle) })),
+    traffic: {
+      ...traffic,
+      cars: traffic.cars.map(car => ({ ...car, position: car.position.clone(), obstacle: cloneObstacle(car.obstacle) }))
+    },
+    coins: state.coins.map(coin => ({ ...coin, position: coin.position.clone() })),
+    pickups: state.pickups.map(pickup => ({ ...pickup, position: pickup.position.clone() })),
+    effects: { ...state.effects }
+  };
+}
+
+// Advance the simulation by exactly one tick
+export function stepSimulation(
+  state: SimulationState,
+  world: WorldDescription,
+  commands: SimulationCommand[] = []
+): SimulationEvent[] {
+  const events: SimulationEvent[] = [];
+
+  // Before any bounce, so a super bounce picked up last tick counts
+  applyPowerUpEffects(state, world);
+
+  for (const command of commands) {
+    applyCommand(state, command, events);
+  }
+
+  updateBall(state, world, events);
+  const bounced = events.some(event => event.type === 'bounce');
+  stepPedestrians(state.pedestrians, world, state.traffic.cars, state.ball.position, bounced, state.tick);
+  const actors = createActorBroadPhase(state);
+  stepTraffic(state.traffic, world, state.pedestrians, actors, state.tick);
+  checkCollisions(state, world, actors, events);
+  stepPowerUps(state, events);
+  collectCoins(state, events);
+  trackDistance(state, events);
+  checkBasketballCourtReached(state, world, events);
+
+  state.tick++;
+  applyScoreEvents(state.score, events, state.tick, world.difficulty);
+  return events;
+}
+
+const groundCellKey = (position: THREE.Vector3) => {
+  const size = simulationSettings.groundCellSize;
+  return `${Math.floor(position.x / size)},${Math.floor(position.z / size)}`;
+};
+
+// Ground actually covered, after walls and obstacles had their say. Only new
+// cells count, so rattling against a wall or going back and forth earns nothing.
+function trackDistance(state: SimulationState, events: SimulationEvent[]) {
+  const key = groundCellKey(state.ball.position);
+
+  if (!state.visitedCells.has(key)) {
+    state.visitedCells.add(key);
+    events.push({ type: 'travelled', distance: simulationSettings.groundCellSize });
+  }
+}
+
+function applyCommand(
+  state: SimulationState,
+  command: SimulationCommand,
+  events: SimulationEvent[]
+) {
+  const { ball } = state;
+
+  switch (command.type) {
+    case 'bounce':
+      bounce(state, events);
+      break;
+    case 'move':
+      ball.input[command.axis] = THREE.MathUtils.clamp(command.direction, -1, 1);
+      break;
+    case 'stop':
+      ball.input.set(0, 0, 0);
+      break;
+  }
+}
+
+function bounce(state: SimulationState, events: SimulationEvent[]) {
+  const { ball } = state;
+
+  // A deflated ball can't bounce
+  if (ball.deflated) {
+    events.push({ type: 'bounceBlocked' });
+    return;
+  }
+
+  if (canPushOff(ball, state.tick)) {
+    ball.consecutiveJumps = 1;
+    ball.lastJumpTick = state.tick;
+
+    ball.velocity.y = ball.jumpForce;
+    ball.onGround = false;
+
+    events.push({ type: 'bounce', level: 1 });
+  } else {
+    const ticksSinceLastJump = state.tick - ball.lastJumpTick;
+
+    if (ticksSinceLastJump < simulationSettings.powerBounceWindow &&
+        ball.consecutiveJumps < simulationSettings.maxConsecutiveJumps) {
+      ball.consecutiveJumps++;
+      ball.lastJumpTick = state.tick;
+
+      const powerMultiplier = 1 + (ball.consecutiveJumps * 0.2);
+      ball.velocity.y = ball.jumpForce * powerMultiplier;
+
+      events.push({ type: 'bounce', level: ball.consecutiveJumps });
+    }
+  }
+}
+
+const groundNormal = new THREE.Vector3(0, 1, 0);
+
+function updateBall(state: SimulationState, world: WorldDescription, events: SimulationEvent[]) {
+  const { ball } = state;
+
+  integrateBall(ball);
+  ball.fallStart = Math.max(ball.fallStart, ball.position.y);
+
+  // Ground collision
+  if (ball.position.y - ball.radius < 0) {
+    ball.position.y = ball.radius;
+    landOn(ball, groundNormal, surfaceAt(world, ball.position.x, ball.position.z, 0));
+    touchDown(state, events);
+  } else {
+    ball.onGround = false;
+  }
+
+  // Reset consecutive jumps if falling
+  if (ball.velocity.y < 0 && !ball.onGround) {
+    ball.consecutiveJumps = 0;
+  }
+}
+
+// Called after landOn, so the ball's surface is the one it came down on. A
+// trampoline catches any fall, and the safe height goes up and down with
+// how high the ball bounces, on any difficulty and with a super bounce.
+function touchDown(state: SimulationState, events: SimulationEvent[]) {
+  const { ball } = state;
+  const bounceScale = jumpHeightScale(ball.jumpForce, ball.gravity);
+
+  if (!ball.deflated && ball.surface !== 'trampoline' &&
+      ball.fallStart - ball.position.y > simulationSettings.safeFallHeight * bounceScale) {
+    deflateBall(state, null, events);
+  }
+
+  ball.fallStart = ball.position.y;
+  ball.onGround = true;
+  ball.lastContactTick = state.tick;
+}
+
+const closestPoint = new THREE.Vector3();
+const surfaceNormal = new THREE.Vector3();
+
+function checkCollisions(
+  state: SimulationState,
+  world: WorldDescription,
+  actors: ActorBroadPhase,
+  events: SimulationEvent[]
+) {
+  const { ball } = state;
+
+  // Only buildings and platforms near the ball can touch it. Resolving a
+  // collision moves the ball by at most its radius, so look that much further out.
+  const nearbyBuildings = queryGrid(world.broadPhase.buildings, ball.position, ball.radius * 2);
+  for (const index of nearbyBuildings) {
+    collideWithBox(state, world, world.buildings[index], events);
+  }
+
+  const nearbyPlatforms = queryGrid(world.broadPhase.platforms, ball.position, ball.radius * 2);
+  for (const index of nearbyPlatforms) {
+    collideWithBox(state, world, world.platforms[index], events);
+  }
+
+  const nearbyRamps = queryGrid(world.broadPhase.ramps, ball.position, ball.radius * 2);
+  for (const index of nearbyRamps) {
+    collideWithRamp(state, world.ramps[index], events);
+  }
+
+  checkObstacleCollisions(state, world, actors, events);
+}
+
+function collideWithBox(state: SimulationState, world: WorldDescription, box: THREE.Box3, events: SimulationEvent[]) {
+  const { ball } = state;
+  if (!isColliding(ball.position, ball.radius, box)) return;
+
+  // Push the ball out along the surface it touched. A centre that ended
+  // up inside the box gets lifted onto the top.
+  box.clampPoint(ball.position, closestPoint);
+  surfaceNormal.subVectors(ball.position, closestPoint);
+  const distance = surfaceNormal.length();
+  if (distance > 0) {
+    surfaceNormal.divideScalar(distance);
+  } else {
+    surfaceNormal.copy(groundNormal);
+  }
+  ball.position.addScaledVector(surfaceNormal, ball.radius - distance);
+
+  if (surfaceNormal.y > 0.7) {
+    // Landed on the roof
+    landOn(ball, surfaceNormal, surfaceAt(world, ball.position.x, ball.position.z, box.max.y));
+    touchDown(state, events);
+  } else {
+    // Walls, and the underside of anything overhead
+    hitWall(ball, surfaceNormal);
+  }
+}
+
+// A ramp is a solid wedge. Over it and near the slope the ball rests on it
+// and rolls down it. Lower down it hit a side or the tall end and goes back
+// out through the nearest one. The low end is flush with the ground.
+function collideWithRamp(state: SimulationState, ramp: WorldRamp, events: SimulationEvent[]) {
+  const { ball } = state;
+  const { min, max } = ramp.bounds;
+  if (!isNearRamp(ramp, ball.position, ball.radius)) return;
+
+  const walls = [
+    { axis: 'x' as const, side: -1, depth: ball.position.x - min.x },
+    { axis: 'x' as const, side: 1, depth: max.x - ball.position.x },
+    { axis: 'z' as const, side: -1, depth: ball.position.z - min.z },
+    { axis: 'z' as const, side: 1, depth: max.z - ball.position.z },
+  ];
+  const isLowEnd = (wall: typeof walls[number]) => wall.axis === ramp.axis && wall.side === -ramp.direction;
+  if (walls.some(wall => isLowEnd(wall) && wall.depth < 0)) return;
+
+  const slopeHeight = rampHeightAt(ramp, ball.position);
+  const over = walls.every(wall => wall.depth >= 0);
+
+  if (over && ball.position.y > slopeHeight - ball.radius) {
+    rampNormal(ramp, surfaceNormal);
+    const clearance = (ball.position.y - slopeHeight) * surfaceNormal.y;
+    if (clearance >= ball.radius) return;
+
+    ball.position.addScaledVector(surfaceNormal, ball.radius - clearance);
+    landOn(ball, surfaceNormal, 'asphalt');
+    touchDown(state, events);
+    return;
+  }
+
+  // Passing over the edge
+  if (ball.position.y >= slopeHeight) return;
+
+  const wall = walls
+    .filter(candidate => !isLowEnd(candidate))
+    .reduce((nearest, candidate) => candidate.depth < nearest.depth ? candidate : nearest);
+
+  surfaceNormal.set(0, 0, 0);
+  surfaceNormal[wall.axis] = wall.side;
+  ball.position[wall.axis] += wall.side * (wall.depth + ball.radius);
+  hitWall(ball, surfaceNormal);
+}
+
+function collectCoins(state: SimulationState, events: SimulationEvent[]) {
+  const { ball } = state;
+  const reach = ball.radius + rooftopSettings.coinRadius;
+
+  state.coins.forEach((coin, index) => {
+    if (!coin.collected && coin.position.distanceTo(ball.position) < reach) {
+      coin.collected = true;
+      events.push({ type: 'coinCollected', coin: index });
+    }
+  });
+}
+
+function checkObstacleCollisions(
+  state: SimulationState,
+  world: WorldDescription,
+  actors: ActorBroadPhase,
+  events: SimulationEvent[]
+) {
+  const { ball } = state;
+
+  // Nails the ball was brushing past may be out of query range by now
+  for (const obstacle of [...state.nearObstacles]) {
+    checkNearMiss(state, obstacle, events);
+  }
+
+  // Anything within near-miss range, plus room for the bounces below
+  const reach = ball.radius + simulationSettings.nearMissDistance + 1;
+  const nearbyObstacles = queryGrid(world.broadPhase.obstacles, ball.position, reach);
+
+  for (const index of nearbyObstacles) {
+    collideWithObstacle(state, world.obstacles[index], events);
+  }
+
+  for (const index of queryGrid(actors.pedestrians, ball.position, reach)) {
+    collideWithObstacle(state, state.pedestrians[index].obstacle, events);
+  }
+
+  for (const index of queryGrid(actors.cars, ball.position, reach)) {
+    const car = state.traffic.cars[index];
+    collideWithCar(state, car.obstacle, car.direction * car.speed, world.walkways[car.road].axis, events);
+  }
+}
+
+const bounceDirection = new THREE.Vector3();
+
+function collideWithObstacle(state: SimulationState, obstacle: WorldObstacle, events: SimulationEvent[]) {
+  const { ball } = state;
+
+  if (obstacle.dangerous) {
+    checkNearMiss(state, obstacle, events);
+  }
+
+  if (!isColliding(ball.position, ball.radius, obstacle.bounds)) return;
+
+  // While immune, the ball rolls right over nails
+  if (obstacle.dangerous && !ball.deflated && !isPowerUpActive(state, 'nailImmunity')) {
+    deflateBall(state, obstacle, events);
+  } else if (!obstacle.dangerous) {
+    // For non-dangerous obstacles like trees or people, just bounce off them
+    obstacle.bounds.clampPoint(ball.position, closestPoint);
+    bounceDirection.subVectors(ball.position, closestPoint).normalize();
+
+    // Apply a small bounce
+    ball.position.x += bounceDirection.x * 0.2;
+    ball.position.z += bounceDirection.z * 0.2;
+
+    // Reverse velocity slightly in that direction
+    ball.velocity.x = bounceDirection.x * 0.1;
+    ball.velocity.z = bounceDirection.z * 0.1;
+  }
+}
+
+// A car pushes the ball out of its way and along with it. Hit hard enough,
+// the ball pops just like on a nail.
+function collideWithCar(
+  state: SimulationState,
+  obstacle: WorldObstacle,
+  velocity: number, // the car's, along its road
+  axis: 'x' | 'z',
+  events: SimulationEvent[]
+) {
+  const { ball } = state;
+  if (!isColliding(ball.position, ball.radius, obstacle.bounds)) return;
+
+  const popped = !ball.deflated && Math.abs(velocity) >= trafficSettings.popSpeed;
+  if (popped) {
+    deflateBall(state, obstacle, events);
+  }
+
+  obstacle.bounds.clampPoint(ball.position, closestPoint);
+  bounceDirection.subVectors(ball.position, closestPoint).setY(0);
+  if (bounceDirection.lengthSq() === 0) {
+    // Centre inside the car - push out the way it is driving
+    bounceDirection.set(0, 0, 0);
+    bounceDirection[axis] = Math.sign(velocity) || 1;
+  }
+  bounceDirection.normalize();
+
+  // Out of the car's bounds, then knocked away and carried along
+  const depth = ball.radius - ball.position.distanceTo(closestPoint);
+  ball.position.addScaledVector(bounceDirection, Math.max(depth, 0) + 0.01);
+  ball.velocity.x = bounceDirection.x * trafficSettings.knockbackSpeed;
+  ball.velocity.z = bounceDirection.z * trafficSettings.knockbackSpeed;
+  ball.velocity[axis] += velocity;
+  ball.velocity.y = Math.max(ball.velocity.y, trafficSettings.knockbackLift);
+  ball.onGround = false;
+
+  events.push({ type: 'carHit', popped });
+}
+
+// Deflate the ball and shrink it slightly
+function deflateBall(state: SimulationState, obstacle: WorldObstacle | null, events: SimulationEvent[]) {
+  const { ball } = state;
+
+  ball.deflated = true;
+  ball.radius = ball.normalRadius * simulationSettings.deflatedRadiusRatio;
+  ball.angularVelocity.set(0, 0, 0);
+  state.nearObstacles.clear();
+
+  events.push({ type: 'deflated', obstacle });
+}
+
+// A nail counts as missed once the ball leaves its clearance zone without
+// touching it. Once the ball is deflated, or while it's immune, there is
+// nothing to dodge.
+function checkNearMiss(state: SimulationState, obstacle: WorldObstacle, events: SimulationEvent[]) {
+  const { ball } = state;
+
+  if (ball.deflated || isPowerUpActive(state, 'nailImmunity') || state.missedObstacles.has(obstacle)) return;
+
+  const distance = obstacle.bounds.distanceToPoint(ball.position);
+  if (distance < ball.radius + simulationSettings.nearMissDistance) {
+    state.nearObstacles.add(obstacle);
+  } else if (state.nearObstacles.delete(obstacle)) {
+    state.missedObstacles.add(obstacle);
+    events.push({ type: 'nearMiss', obstacle });
+  }
+}
+
+export function isColliding(
+  ballPosition: THREE.Vector3,
+  ballRadius: number,
+  box: THREE.Box3
+): boolean {
+  // Distance from the closest point on the box to the ball center
+  return box.distanceToPoint(ballPosition) < ballRadius;
+}
+
+function checkBasketballCourtReached(
+  state: SimulationState,
+  world: WorldDescription,
+  events: SimulationEvent[]
+) {
+  const { ball } = state;
+
+  if (state.mazeCompleted) return;
+
+  // If the ball is on the basketball court (court radius is about 7.5 units)
+  if (ball.position.distanceTo(world.goalPosition) < simulationSettings.goalRadius) {
+    state.mazeCompleted = true;
+
+    // Fewer points if deflated, how many fewer depends on the difficulty
+    events.push({ type: 'courtReached', deflated: ball.deflated });
+  }
+}
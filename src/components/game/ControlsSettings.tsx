@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { InputAction, inputActionLabels, inputActions } from './InputActions';
+import {
+  BINDINGS_PER_ACTION,
+  KeyBindings,
+  bindKey,
+  defaultKeyBindings,
+  describeKey,
+  normalizeKey,
+  unbindKey
+} from './InputBindings';
+
+interface ControlsSettingsProps {
+  bindings: KeyBindings;
+  onBindingsChange: (bindings: KeyBindings) => void;
+  onClose: () => void;
+}
+
+interface Slot {
+  action: InputAction;
+  index: number;
+}
+
+const ControlsSettings: React.FC<ControlsSettingsProps> = ({ bindings, onBindingsChange, onClose }) => {
+  const [listening, setListening] = useState<Slot | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+
+    // Capture the next key before the game sees it
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      onBindingsChange(bindKey(bindings, listening.action, listening.index, normalizeKey(e)));
+      setListening(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [listening, bindings, onBindingsChange]);
+
+  return (
+    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white/95 p-5 rounded-lg border-2 border-[#FF7700] w-[90%] max-w-md z-30 shadow-xl">
+      <h1 className="text-2xl font-bold mb-1 text-[#FF7700] text-center">Controls</h1>
+      <p className="text-sm text-gray-600 mb-4 text-center">
+        Click a slot, then press the key you want for it
+      </p>
+
+      <div className="space-y-2">
+        {inputActions.map((action) => (
+          <div key={action} className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium">{inputActionLabels[action]}</span>
+            <div className="flex gap-2">
+              {Array.from({ length: BINDINGS_PER_ACTION }, (_, index) => {
+                const key = bindings[action][index];
+                const isListening = listening?.action === action && listening.index === index;
+
+                return (
+                  <button
+                    key={index}
+                    className={`w-24 px-2 py-1 text-sm rounded-md border-2 transition-colors ${isListening ? 'border-[#FF7700] bg-orange-50 animate-pulse' : 'border-[#FF7700]/40 hover:border-[#FF7700]'}`}
+                    onClick={(e) => {
+                      // Don't let Space or Enter click it again as the new key
+                      e.currentTarget.blur();
+                      setListening({ action, index });
+                    }}
+                    onContextMenu={(e) => {
+                      e.preventDefault();
+                      if (key !== undefined) onBindingsChange(unbindKey(bindings, action, index));
+                    }}
+                    title="Right-click to clear"
+                  >
+                    {isListening ? 'Press a key' : key !== undefined ? describeKey(key) : '—'}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex justify-center gap-2">
+        <button
+          className="px-4 py-2 border-2 border-[#FF7700] text-[#FF7700] hover:bg-[#FF7700] hover:text-white rounded-md transition-colors"
+          onClick={() => {
+            setListening(null);
+            onBindingsChange(defaultKeyBindings);
+          }}
+        >
+          Reset to Defaults
+        </button>
+        <button
+          className="px-4 py-2 bg-[#FF7700] hover:bg-[#FF9933] text-white rounded-md transition-colors"
+          onClick={onClose}
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ControlsSettings;
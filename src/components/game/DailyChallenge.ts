@@ -0,0 +1,17 @@
+import { hashString } from './SeededRandom';
+
+// "Daily City" - one shared layout per calendar day. Days roll over at
+// midnight UTC so players in different time zones race the same city.
+
+export function getDailyKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10); // YYYY-MM-DD
+}
+
+export function getDailySeed(date: Date = new Date()): number {
+  return hashString(`daily-city:${getDailyKey(date)}`);
+}
+
+// Each day gets its own leaderboard, separate from orangeBallHighScores
+export function getDailyLeaderboardKey(day: string = getDailyKey()): string {
+  return `orangeBallDailyScores:${day}`;
+}
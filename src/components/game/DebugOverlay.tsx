@@ -0,0 +1,31 @@
+import React from 'react';
+import { RenderStats } from './RenderStats';
+
+interface DebugOverlayProps {
+  stats: RenderStats | null;
+  sessions: number; // games started since the page loaded, to spot leaks across restarts
+}
+
+const DebugOverlay: React.FC<DebugOverlayProps> = ({ stats, sessions }) => {
+  return (
+    <div className="absolute bottom-2 left-2 z-10 bg-black/60 text-green-300 font-mono text-xs p-2 rounded pointer-events-none">
+      {stats ? (
+        <>
+          <div>FPS: {stats.fps}</div>
+          <div>Draw calls: {stats.drawCalls}</div>
+          <div>Triangles: {stats.triangles.toLocaleString()}</div>
+          <div className="mt-1">Geometries: {stats.geometries}</div>
+          <div>Textures: {stats.textures}</div>
+          <div>Programs: {stats.programs}</div>
+          {stats.heapMegabytes !== null && <div>JS heap: {stats.heapMegabytes} MB</div>}
+        </>
+      ) : (
+        <div>Measuring...</div>
+      )}
+      <div className="mt-1">Sessions: {sessions}</div>
+      <div className="text-gray-400 mt-1">` to hide</div>
+    </div>
+  );
+};
+
+export default DebugOverlay;
@@ -0,0 +1,77 @@
+// Difficulty for the 3D city. One table drives everything that changes
+// with it: the ball's physics, how crowded and dangerous a generated city
+// is, how far away the court is and what arriving deflated costs. Medium
+// is the game as it always played. Authored levels keep their own props
+// and court, only the physics, traffic and scoring change there.
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const difficulties: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const defaultDifficulty: Difficulty = 'medium';
+
+// Physics in units per tick, like simulationSettings
+export interface CityDifficulty {
+  gravity: number;
+  jumpForce: number;
+  speedScale: number; // on the ball's acceleration and top speed
+  nails: number; // in a generated city
+  hydrants: number;
+  people: number;
+  goalDistanceScale: number; // on the court's distance from the start
+  trafficDensity: number; // cars per 100 units of lane
+  deflatedCourtBonus: number; // what the court pays for a deflated ball, see ScoreSystem
+}
+
+export const cityDifficulties: Record<Difficulty, CityDifficulty> = {
+  easy: {
+    gravity: 0.013,
+    jumpForce: 0.3,
+    speedScale: 0.9,
+    nails: 18,
+    hydrants: 10,
+    people: 12,
+    goalDistanceScale: 0.5,
+    trafficDensity: 0.6,
+    deflatedCourtBonus: 40,
+  },
+  medium: {
+    gravity: 0.015,
+    jumpForce: 0.3,
+    speedScale: 1,
+    nails: 30,
+    hydrants: 15,
+    people: 20,
+    goalDistanceScale: 1,
+    trafficDensity: 1.2,
+    deflatedCourtBonus: 25,
+  },
+  hard: {
+    gravity: 0.017,
+    jumpForce: 0.31,
+    speedScale: 1.15,
+    nails: 45,
+    hydrants: 20,
+    people: 30,
+    goalDistanceScale: 1.1,
+    trafficDensity: 2,
+    deflatedCourtBonus: 10,
+  },
+};
+
+export const difficultyLabels: Record<Difficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+// How high a bounce goes compared to medium - safe drops scale with it
+export function jumpHeightScale(jumpForce: number, gravity: number): number {
+  const medium = cityDifficulties.medium;
+  return (jumpForce ** 2 / gravity) / (medium.jumpForce ** 2 / medium.gravity);
+}
+
+// Appended to leaderboard and ghost keys. Medium keeps the keys it always
+// had, so nobody's records go missing.
+export const difficultyKeySuffix = (difficulty: Difficulty) =>
+  difficulty === defaultDifficulty ? '' : `:${difficulty}`;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { Difficulty, difficulties } from './Difficulty';
+
+// Difficulty buttons shared by both games, each one's tooltip says what it changes
+interface DifficultyPickerProps {
+  difficulty: Difficulty;
+  onDifficultyChange: (difficulty: Difficulty) => void;
+  renderDetails: (difficulty: Difficulty) => React.ReactNode;
+  disabled?: boolean;
+}
+
+const DifficultyPicker: React.FC<DifficultyPickerProps> = ({
+  difficulty,
+  onDifficultyChange,
+  renderDetails,
+  disabled = false
+}) => {
+  return (
+    <div className="flex gap-2">
+      {difficulties.map((level) => (
+        <TooltipProvider key={level}>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={difficulty === level ? "default" : "outline"}
+                size="sm"
+                disabled={disabled}
+                onClick={() => onDifficultyChange(level)}
+                className="text-xs capitalize"
+              >
+                {level}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>
+              {renderDetails(level)}
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      ))}
+    </div>
+  );
+};
+
+export default DifficultyPicker;
@@ -0,0 +1,68 @@
+import React from 'react';
+import DifficultyPicker from './DifficultyPicker';
+import { Difficulty, cityDifficulties, difficultyLabels } from './Difficulty';
+import { scoreSettings } from './ScoreSystem';
+
+interface DifficultySelectProps {
+  difficulty: Difficulty;
+  onDifficultyChange: (difficulty: Difficulty) => void;
+  onStart: () => void;
+  onClose?: () => void; // shows a button to carry on without restarting
+}
+
+const CityDifficultyDetails: React.FC<{ difficulty: Difficulty }> = ({ difficulty }) => {
+  const settings = cityDifficulties[difficulty];
+
+  return (
+    <>
+      <p>Gravity: {settings.gravity} · Jump Force: {settings.jumpForce} · Speed: {Math.round(settings.speedScale * 100)}%</p>
+      <p>Random cities: {settings.nails} nails, {settings.hydrants} hydrants, {settings.people} people</p>
+      <p>Court distance: {Math.round(settings.goalDistanceScale * 100)}% · Traffic: {settings.trafficDensity} cars per 100 units</p>
+      <p>Court bonus: +{scoreSettings.courtBonus}, +{settings.deflatedCourtBonus} with a deflated ball</p>
+    </>
+  );
+};
+
+// Shown before a run starts, and whenever the player wants to switch
+const DifficultySelect: React.FC<DifficultySelectProps> = ({ difficulty, onDifficultyChange, onStart, onClose }) => {
+  return (
+    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white/95 p-5 rounded-lg border-2 border-[#FF7700] w-[90%] max-w-md z-20 shadow-xl">
+      <h1 className="text-2xl font-bold mb-1 text-[#FF7700] text-center">Choose Difficulty</h1>
+      <p className="text-sm text-gray-600 mb-4 text-center">
+        Each difficulty keeps its own leaderboards and ghosts
+      </p>
+
+      <div className="flex justify-center">
+        <DifficultyPicker
+          difficulty={difficulty}
+          onDifficultyChange={onDifficultyChange}
+          renderDetails={(level) => <CityDifficultyDetails difficulty={level} />}
+        />
+      </div>
+
+      <div className="mt-4 text-sm text-gray-700 space-y-1">
+        <p className="font-bold">{difficultyLabels[difficulty]}</p>
+        <CityDifficultyDetails difficulty={difficulty} />
+      </div>
+
+      <div className="mt-4 flex justify-center gap-2">
+        <button
+          className="px-4 py-2 bg-[#FF7700] hover:bg-[#FF9933] text-white rounded-md transition-colors"
+          onClick={onStart}
+        >
+          Start
+        </button>
+        {onClose && (
+          <button
+            className="px-4 py-2 border-2 border-[#FF7700] text-[#FF7700] hover:bg-[#FF7700] hover:text-white rounded-md transition-colors"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DifficultySelect;
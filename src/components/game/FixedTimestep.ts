@@ -0,0 +1,44 @@
+// Fixed-timestep clock shared by the game loops. Physics always advances in
+// whole ticks of FIXED_TIMESTEP, whatever the display refresh rate, and the
+// renderer interpolates between the last two ticks.
+
+export const TICKS_PER_SECOND = 60;
+export const FIXED_TIMESTEP = 1000 / TICKS_PER_SECOND; // ms per tick
+
+// Cap on how much time one frame may simulate, so a backgrounded tab
+// doesn't come back to thousands of queued ticks
+const MAX_FRAME_TIME = 250;
+
+export interface FixedTimestepClock {
+  lastTime: number | null;
+  accumulator: number;
+}
+
+export interface ClockAdvance {
+  steps: number; // ticks to simulate this frame
+  alpha: number; // 0..1 progress towards the next tick, for interpolation
+}
+
+export function createFixedTimestepClock(): FixedTimestepClock {
+  return { lastTime: null, accumulator: 0 };
+}
+
+export function advanceClock(clock: FixedTimestepClock, now: number): ClockAdvance {
+  if (clock.lastTime === null) {
+    clock.lastTime = now;
+  }
+
+  const frameTime = Math.min(Math.max(now - clock.lastTime, 0), MAX_FRAME_TIME);
+  clock.lastTime = now;
+  clock.accumulator += frameTime;
+
+  let steps = 0;
+  while (clock.accumulator >= FIXED_TIMESTEP) {
+    clock.accumulator -= FIXED_TIMESTEP;
+    steps++;
+  }
+
+  return { steps, alpha: clock.accumulator / FIXED_TIMESTEP };
+}
+
+export const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
@@ -1,20 +1,51 @@
-
 import React from 'react';
+import { KeyBindings, describeBinding, describeKey } from './InputBindings';
+import { ControllerStyle, controllerGlyphs } from './Gamepads';
+
+interface GameBannerProps {
+  bindings: KeyBindings; // shown as the player has them bound
+  controller?: ControllerStyle | null; // a pad's buttons instead, while one is being played with
+  touch?: boolean; // smaller, to leave room for the on-screen controls
+}
+
+const touchGlyphs = { move: 'DRAG', bounce: 'TAP', pause: '❚❚', camera: 'CAM' };
+
+const GameBanner: React.FC<GameBannerProps> = ({ bindings, controller, touch }) => {
+  // First key of each direction, like the arrows ↑↓←→
+  const moveKeys = [bindings.moveForward, bindings.moveBack, bindings.moveLeft, bindings.moveRight]
+    .map(keys => keys[0])
+    .filter(key => key !== undefined);
+
+  const glyphs = controller
+    ? controllerGlyphs[controller]
+    : touch ? touchGlyphs : {
+      move: moveKeys.map(describeKey).join(''),
+      bounce: describeBinding(bindings, 'bounce').toUpperCase(),
+      pause: describeBinding(bindings, 'pause').toUpperCase(),
+      camera: describeBinding(bindings, 'camera').toUpperCase(),
+    };
 
-const GameBanner: React.FC = () => {
   return (
     <div className="absolute top-0 left-0 right-0 mx-auto w-full max-w-4xl z-10 pointer-events-none">
-      <div className="bg-gradient-to-r from-orange-500 to-amber-600 text-white p-4 rounded-b-lg shadow-lg font-['Poppins',_sans-serif] text-center">
-        <h1 className="text-2xl font-bold mb-2">CITY BASKETBALL CHALLENGE</h1>
-        <p className="text-lg mb-2">
-          Guide your basketball through the city to reach the basketball court!
-        </p>
-        <div className="flex flex-wrap justify-center gap-4 text-sm">
+      <div className={`bg-gradient-to-r from-orange-500 to-amber-600 text-white rounded-b-lg shadow-lg font-['Poppins',_sans-serif] text-center ${touch ? 'p-2' : 'p-4'}`}>
+        <h1 className={`font-bold ${touch ? 'text-lg mb-1' : 'text-2xl mb-2'}`}>CITY BASKETBALL CHALLENGE</h1>
+        {!touch && (
+          <p className="text-lg mb-2">
+            Guide your basketball through the city to reach the basketball court!
+          </p>
+        )}
+        <div className={`flex flex-wrap justify-center text-sm ${touch ? 'gap-2' : 'gap-4'}`}>
+          <div className="bg-black/20 px-3 py-1 rounded-full">
+            <span className="font-bold">{glyphs.move}</span> Move Ball
+          </div>
+          <div className="bg-black/20 px-3 py-1 rounded-full">
+            <span className="font-bold">{glyphs.bounce}</span> Bounce
+          </div>
           <div className="bg-black/20 px-3 py-1 rounded-full">
-            <span className="font-bold">↑↓←→</span> Move Ball
+            <span className="font-bold">{glyphs.pause}</span> Pause
           </div>
           <div className="bg-black/20 px-3 py-1 rounded-full">
-            <span className="font-bold">SPACE</span> Bounce
+            <span className="font-bold">{glyphs.camera}</span> Camera
           </div>
           <div className="bg-black/20 px-3 py-1 rounded-full">
             <span className="text-red-200 font-bold">AVOID</span> Nails
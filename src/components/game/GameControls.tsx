@@ -2,12 +2,7 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
-import { 
-  Tooltip,
-  TooltipContent,
-  TooltipProvider,
-  TooltipTrigger,
-} from '@/components/ui/tooltip';
+import DifficultyPicker from './DifficultyPicker';
 import { difficultySettings } from './GameUtils';
 
 interface GameControlsProps {
@@ -47,30 +42,18 @@ const GameControls: React.FC<GameControlsProps> = ({
         
         <div className="flex justify-between gap-2">
           <h3 className="text-sm font-medium mr-2">Difficulty:</h3>
-          <div className="flex gap-2">
-            {(['easy', 'medium', 'hard'] as const).map((level) => (
-              <TooltipProvider key={level}>
-                <Tooltip>
-                  <TooltipTrigger asChild>
-                    <Button 
-                      variant={difficulty === level ? "default" : "outline"}
-                      size="sm"
-                      disabled={!isGameOver}
-                      onClick={() => onDifficultyChange(level)}
-                      className="text-xs capitalize"
-                    >
-                      {level}
-                    </Button>
-                  </TooltipTrigger>
-                  <TooltipContent>
-                    <p>Speed: {difficultySettings[level].gameSpeed}</p>
-                    <p>Gravity: {difficultySettings[level].gravity}</p>
-                    <p>Jump Force: {Math.abs(difficultySettings[level].jumpForce)}</p>
-                  </TooltipContent>
-                </Tooltip>
-              </TooltipProvider>
-            ))}
-          </div>
+          <DifficultyPicker
+            difficulty={difficulty}
+            onDifficultyChange={onDifficultyChange}
+            disabled={!isGameOver}
+            renderDetails={(level) => (
+              <>
+                <p>Speed: {difficultySettings[level].gameSpeed}</p>
+                <p>Gravity: {difficultySettings[level].gravity}</p>
+                <p>Jump Force: {Math.abs(difficultySettings[level].jumpForce)}</p>
+              </>
+            )}
+          />
         </div>
         
         {isGameOver && (
@@ -0,0 +1,266 @@
+import * as THREE from 'three';
+import { SimulationBall, SimulationEvent, WorldDescription, WorldObstacle, simulationSettings } from './CitySimulation';
+import {
+  CarRig,
+  CitySceneObjects,
+  PeopleRig,
+  createBallMesh,
+  createGhostBallMesh,
+  poseCar,
+  poseCoin,
+  posePerson,
+  posePickup
+} from './CityScene';
+import { Pedestrian, limbSwing } from './Pedestrians';
+import { Car } from './Traffic';
+import { Coin } from './Rooftops';
+import { Pickup } from './PowerUps';
+import { ResourceTracker, releaseObject, trackObject } from './ResourceTracker';
+import { playBounceSound } from './GameAudio';
+
+// Entity/component layer between the simulation and the scene. Every thing in
+// the game is an entity holding references to its physics body, owned by the
+// simulation, and its render object, owned by the scene. Systems iterate over
+// entities by component rather than searching the scene graph.
+//
+// Contacts themselves are resolved inside the headless simulation, against
+// the same bounds the body components point at, so replays stay exact.
+
+export type EntityKind = 'ball' | 'ghost' | 'building' | 'obstacle' | 'pedestrian' | 'car' | 'coin' | 'pickup' | 'court';
+
+export interface RenderComponent {
+  object: THREE.Object3D;
+  instance: number | null; // slot in an InstancedMesh, null when the object is its own
+}
+
+export type BodyComponent =
+  | { type: 'ball'; ball: SimulationBall; previousPosition: THREE.Vector3; previousOrientation: THREE.Quaternion }
+  | { type: 'pedestrian'; pedestrian: Pedestrian; previousPosition: THREE.Vector3 }
+  | { type: 'car'; car: Car; previousPosition: THREE.Vector3 }
+  | { type: 'coin'; coin: Coin }
+  | { type: 'pickup'; pickup: Pickup }
+  | { type: 'box'; bounds: THREE.Box3 }
+  | { type: 'obstacle'; obstacle: WorldObstacle }
+  | { type: 'goal'; position: THREE.Vector3; radius: number };
+
+export interface AudioComponent {
+  bounceFrequency: number; // pitch of a plain bounce, power bounces go higher
+}
+
+export interface Entity {
+  id: number;
+  kind: EntityKind;
+  render?: RenderComponent;
+  body?: BodyComponent;
+  audio?: AudioComponent;
+  rig?: PeopleRig; // limbs to pose, for people
+  carRig?: CarRig; // body and wheels to pose, for cars
+}
+
+type ComponentName = 'render' | 'body' | 'audio' | 'rig' | 'carRig';
+
+export type EntityWith<K extends ComponentName> = Entity & Required<Pick<Entity, K>>;
+
+export interface EntityStore {
+  entities: Entity[];
+  nextId: number;
+}
+
+export function createEntityStore(): EntityStore {
+  return { entities: [], nextId: 1 };
+}
+
+export function addEntity<C extends Omit<Entity, 'id' | 'kind'>>(
+  store: EntityStore,
+  kind: EntityKind,
+  components: C
+): Entity & C {
+  const entity = { id: store.nextId++, kind, ...components };
+  store.entities.push(entity);
+  return entity;
+}
+
+export function removeEntity(store: EntityStore, entity: Entity) {
+  store.entities = store.entities.filter(other => other !== entity);
+}
+
+// Every entity that has all the given components
+export function queryEntities<K extends ComponentName>(store: EntityStore, ...components: K[]): EntityWith<K>[] {
+  return store.entities.filter(
+    (entity): entity is EntityWith<K> => components.every(component => entity[component] !== undefined)
+  );
+}
+
+export function findEntity(store: EntityStore, kind: EntityKind): Entity | undefined {
+  return store.entities.find(entity => entity.kind === kind);
+}
+
+// Entities for the static city - world and scene objects come from the same layout
+export function addCityEntities(store: EntityStore, world: WorldDescription, objects: CitySceneObjects) {
+  world.buildings.forEach((bounds, index) => {
+    addEntity(store, 'building', {
+      body: { type: 'box', bounds },
+      render: { object: objects.buildings, instance: index }
+    });
+  });
+
+  // Obstacles of one type are instanced in the order the world lists them
+  const instances = { nail: 0, hydrant: 0, tree: 0 };
+  for (const obstacle of world.obstacles) {
+    if (obstacle.type === 'person') continue; // people walk, see addPedestrianEntities
+
+    addEntity(store, 'obstacle', {
+      body: { type: 'obstacle', obstacle },
+      render: { object: objects.obstacles[obstacle.type], instance: instances[obstacle.type]++ }
+    });
+  }
+
+  addEntity(store, 'court', {
+    body: { type: 'goal', position: world.goalPosition, radius: simulationSettings.goalRadius },
+    render: { object: objects.court, instance: null }
+  });
+}
+
+// One per person in the simulation, in the same order as the rig's instances
+export function addPedestrianEntities(store: EntityStore, pedestrians: Pedestrian[], rig: PeopleRig) {
+  pedestrians.forEach((pedestrian, index) => {
+    addEntity(store, 'pedestrian', {
+      body: { type: 'pedestrian', pedestrian, previousPosition: pedestrian.position.clone() },
+      render: { object: rig.group, instance: index },
+      rig
+    });
+  });
+}
+
+// One per car in the simulation, in the same order as the rig's instances
+export function addCarEntities(store: EntityStore, cars: Car[], carRig: CarRig) {
+  cars.forEach((car, index) => {
+    addEntity(store, 'car', {
+      body: { type: 'car', car, previousPosition: car.position.clone() },
+      render: { object: carRig.group, instance: index },
+      carRig
+    });
+  });
+}
+
+// One per coin in the simulation, in the same order as the mesh's instances
+export function addCoinEntities(store: EntityStore, coins: Coin[], mesh: THREE.InstancedMesh) {
+  coins.forEach((coin, index) => {
+    addEntity(store, 'coin', {
+      body: { type: 'coin', coin },
+      render: { object: mesh, instance: index }
+    });
+  });
+}
+
+// One per power-up in the simulation, in the same order as the mesh's instances
+export function addPickupEntities(store: EntityStore, pickups: Pickup[], mesh: THREE.InstancedMesh) {
+  pickups.forEach((pickup, index) => {
+    addEntity(store, 'pickup', {
+      body: { type: 'pickup', pickup },
+      render: { object: mesh, instance: index }
+    });
+  });
+}
+
+// The player's ball makes sound, the ghost of a previous run doesn't
+export function addBallEntity(
+  store: EntityStore,
+  kind: 'ball' | 'ghost',
+  ball: SimulationBall,
+  mesh: THREE.Mesh
+): EntityWith<'render' | 'body'> {
+  return addEntity(store, kind, {
+    body: { type: 'ball', ball, previousPosition: ball.position.clone(), previousOrientation: ball.orientation.clone() },
+    render: { object: mesh, instance: null },
+    ...(kind === 'ball' ? { audio: { bounceFrequency: 150 } } : {})
+  });
+}
+
+// Physics: remember where everything that moves was, then run the tick
+export function physicsSystem(store: EntityStore, step: () => SimulationEvent[]): SimulationEvent[] {
+  for (const { body } of queryEntities(store, 'body')) {
+    if (body.type === 'ball') {
+      body.previousPosition.copy(body.ball.position);
+      body.previousOrientation.copy(body.ball.orientation);
+    } else if (body.type === 'pedestrian') {
+      body.previousPosition.copy(body.pedestrian.position);
+    } else if (body.type === 'car') {
+      body.previousPosition.copy(body.car.position);
+    }
+  }
+
+  return step();
+}
+
+const pedestrianPosition = new THREE.Vector3();
+const carPosition = new THREE.Vector3();
+
+// Rendering: draw moving bodies between their last two ticks. The rest of
+// the city is static, so only balls, people, cars, coins and pickups need syncing.
+export function renderSystem(store: EntityStore, resources: ResourceTracker, alpha: number) {
+  for (const { body, render, rig } of queryEntities(store, 'render', 'body', 'rig')) {
+    if (body.type !== 'pedestrian' || render.instance === null) continue;
+
+    const { pedestrian } = body;
+    pedestrianPosition.lerpVectors(body.previousPosition, pedestrian.position, alpha);
+    posePerson(rig, render.instance, pedestrianPosition, pedestrian.heading, limbSwing(pedestrian));
+  }
+
+  for (const { body, render, carRig } of queryEntities(store, 'render', 'body', 'carRig')) {
+    if (body.type !== 'car' || render.instance === null) continue;
+
+    // A car that just came back in at the start of a road jumps straight there
+    const { car } = body;
+    if (car.spawned) {
+      carPosition.copy(car.position);
+    } else {
+      carPosition.lerpVectors(body.previousPosition, car.position, alpha);
+    }
+    poseCar(carRig, render.instance, carPosition, car.heading);
+  }
+
+  for (const entity of queryEntities(store, 'render', 'body')) {
+    const { body, render } = entity;
+
+    if (body.type === 'coin' && render.instance !== null) {
+      poseCoin(render.object as THREE.InstancedMesh, render.instance, body.coin.position, body.coin.collected);
+    }
+    if (body.type === 'pickup' && render.instance !== null) {
+      posePickup(render.object as THREE.InstancedMesh, render.instance, body.pickup.position, body.pickup.respawnTick === null);
+    }
+    if (body.type !== 'ball') continue;
+
+    // Swap in a flattened ball once it hits a nail, freeing the old mesh
+    if (body.ball.deflated !== render.object.userData.deflated) {
+      const parent = render.object.parent;
+      const createMesh = entity.kind === 'ghost' ? createGhostBallMesh : createBallMesh;
+
+      releaseObject(resources, render.object);
+      render.object = trackObject(resources, createMesh(body.ball.radius, body.ball.deflated));
+      parent?.add(render.object);
+    }
+
+    render.object.position.lerpVectors(body.previousPosition, body.ball.position, alpha);
+
+    // The texture turns with the ball as it rolls and spins. A flattened
+    // ball stays upright, it only scrapes along.
+    if (!body.ball.deflated) {
+      render.object.quaternion.slerpQuaternions(body.previousOrientation, body.ball.orientation, alpha);
+    }
+  }
+}
+
+// Audio: a tick's events are the player's, so they sound from entities that can play them
+export function audioSystem(store: EntityStore, events: SimulationEvent[]) {
+  const sources = queryEntities(store, 'audio');
+
+  for (const event of events) {
+    if (event.type !== 'bounce') continue;
+
+    for (const { audio } of sources) {
+      // Higher-pitched bounce sound for power bounces
+      playBounceSound(audio.bounceFrequency + event.level * 30);
+    }
+  }
+}
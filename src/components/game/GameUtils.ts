@@ -1,7 +1,11 @@
+import { FixedTimestepClock } from './FixedTimestep';
+
 // Ball interface
 export interface Ball {
   x: number;
   y: number;
+  previousX: number; // position at the previous tick, for interpolated drawing
+  previousY: number;
   radius: number;
   velocityY: number;
   velocityX: number;
@@ -17,6 +21,7 @@ export interface Ball {
 // Obstacle interface
 export interface Obstacle {
   x: number;
+  previousX: number;
   y: number;
   width: number;
   height: number;
@@ -26,6 +31,7 @@ export interface Obstacle {
 // PowerUp interface
 export interface PowerUp {
   x: number;
+  previousX: number;
   y: number;
   width: number;
   height: number;
@@ -40,12 +46,14 @@ export interface GameState {
   powerUps: PowerUp[];
   score: number;
   gameSpeed: number;
+  time: number; // simulated milliseconds, advanced one fixed tick at a time
   lastObstacleTime: number;
   lastPowerUpTime: number;
   jumpPressed: boolean;
   leftPressed: boolean;
   rightPressed: boolean;
   animationId: number;
+  clock: FixedTimestepClock;
   canvas: HTMLCanvasElement | null;
   ctx: CanvasRenderingContext2D | null;
   gameOver: boolean;
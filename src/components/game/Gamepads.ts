@@ -0,0 +1,144 @@
+import { InputAction, MoveAxis, quantizeAxis } from './InputActions';
+import { ActionChange } from './InputBindings';
+
+// Controllers through the Gamepad API. Browsers don't send gamepad events
+// for buttons or sticks, so the host polls once per frame and gets back the
+// same action changes a keyboard makes, plus the left stick for analog
+// movement. Buttons follow the "standard" mapping most pads report.
+
+export const gamepadSettings = {
+  deadZone: 0.2, // stick travel from centre that counts as nothing
+  rumbleDuration: 200, // ms
+  rumbleStrength: 0.8,
+};
+
+// Standard mapping button indices
+const buttonActions: [number, InputAction][] = [
+  [0, 'bounce'], // A / Cross
+  [3, 'camera'], // Y / Triangle
+  [9, 'pause'], // Start / Options
+  [12, 'moveForward'], // d-pad
+  [13, 'moveBack'],
+  [14, 'moveLeft'],
+  [15, 'moveRight'],
+];
+
+export type ControllerStyle = 'xbox' | 'playstation';
+
+export interface GamepadTracker {
+  index: number | null; // the pad being read, the first one connected
+  pressed: Set<number>; // button indices down at the last poll
+  stick: Record<MoveAxis, number>; // left stick at the last poll
+}
+
+export interface AxisChange {
+  axis: MoveAxis;
+  value: number; // quantized, after the dead-zone
+}
+
+export interface GamepadPoll {
+  changes: ActionChange[];
+  moves: AxisChange[]; // only axes the stick moved on, so other analog input isn't overridden
+  active: boolean; // anything was pressed or held over this frame
+}
+
+export function createGamepadTracker(): GamepadTracker {
+  return { index: null, pressed: new Set(), stick: { x: 0, z: 0 } };
+}
+
+const getGamepads = (): (Gamepad | null)[] =>
+  typeof navigator !== 'undefined' && navigator.getGamepads ? Array.from(navigator.getGamepads()) : [];
+
+// Picks the first pad connected when there's none yet or the last one went
+// away. Whatever the old pad held is let go of, otherwise those actions would
+// stay held with nothing left to release them.
+function selectGamepad(tracker: GamepadTracker): ActionChange[] {
+  const gamepads = getGamepads();
+  if (tracker.index !== null && gamepads[tracker.index]?.connected) return [];
+
+  tracker.index = gamepads.find(pad => pad?.connected)?.index ?? null;
+
+  const released = buttonActions
+    .filter(([button]) => tracker.pressed.has(button))
+    .map(([, action]): ActionChange => ({ type: 'up', action }));
+  tracker.pressed.clear();
+  return released;
+}
+
+export function getActiveGamepad(tracker: GamepadTracker): Gamepad | null {
+  const gamepad = tracker.index !== null ? getGamepads()[tracker.index] : null;
+  return gamepad?.connected ? gamepad : null;
+}
+
+// Radial dead-zone, then rescaled so movement starts from zero at its edge
+// instead of jumping to the dead-zone's size
+export function applyDeadZone(x: number, y: number, deadZone: number = gamepadSettings.deadZone): [number, number] {
+  const magnitude = Math.hypot(x, y);
+  if (magnitude <= deadZone) return [0, 0];
+
+  const scaled = Math.min((magnitude - deadZone) / (1 - deadZone), 1);
+  return [x / magnitude * scaled, y / magnitude * scaled];
+}
+
+function stickMoves(tracker: GamepadTracker, stick: Record<MoveAxis, number>): AxisChange[] {
+  const moves: AxisChange[] = [];
+  for (const axis of ['x', 'z'] as MoveAxis[]) {
+    if (stick[axis] !== tracker.stick[axis]) {
+      tracker.stick[axis] = stick[axis];
+      moves.push({ axis, value: stick[axis] });
+    }
+  }
+  return moves;
+}
+
+export function pollGamepad(tracker: GamepadTracker): GamepadPoll {
+  const changes = selectGamepad(tracker);
+  const gamepad = getActiveGamepad(tracker);
+
+  // A pad unplugged mid-push lets go of the stick too
+  if (!gamepad) return { changes, moves: stickMoves(tracker, { x: 0, z: 0 }), active: false };
+
+  for (const [button, action] of buttonActions) {
+    const pressed = gamepad.buttons[button]?.pressed ?? false;
+    if (pressed === tracker.pressed.has(button)) continue;
+
+    if (pressed) {
+      tracker.pressed.add(button);
+    } else {
+      tracker.pressed.delete(button);
+    }
+    changes.push({ type: pressed ? 'down' : 'up', action });
+  }
+
+  // Stick up is negative, which is forward, the same as the world's z
+  const [x, z] = applyDeadZone(gamepad.axes[0] ?? 0, gamepad.axes[1] ?? 0);
+  const stick = { x: quantizeAxis(x), z: quantizeAxis(z) };
+
+  return { changes, moves: stickMoves(tracker, stick), active: changes.length > 0 || stick.x !== 0 || stick.z !== 0 };
+}
+
+// Not every browser or pad can rumble, those just don't
+export function rumble(tracker: GamepadTracker) {
+  const gamepad = tracker.index !== null ? getGamepads()[tracker.index] : null;
+
+  // Called mid-tick, so nothing it throws may reach the game loop
+  try {
+    gamepad?.vibrationActuator?.playEffect?.('dual-rumble', {
+      duration: gamepadSettings.rumbleDuration,
+      strongMagnitude: gamepadSettings.rumbleStrength,
+      weakMagnitude: gamepadSettings.rumbleStrength,
+    })?.catch(() => undefined);
+  } catch (e) {
+    console.log("Could not rumble gamepad:", e);
+  }
+}
+
+// Sony pads report their vendor id or name in the id string
+export function getControllerStyle(gamepad: Gamepad): ControllerStyle {
+  return /054c|playstation|dualshock|dualsense/i.test(gamepad.id) ? 'playstation' : 'xbox';
+}
+
+export const controllerGlyphs: Record<ControllerStyle, Record<'move' | 'bounce' | 'pause' | 'camera', string>> = {
+  xbox: { move: 'L-STICK', bounce: 'Ⓐ', pause: 'START', camera: 'Ⓨ' },
+  playstation: { move: 'L-STICK', bounce: '✕', pause: 'OPTIONS', camera: '△' },
+};
@@ -0,0 +1,86 @@
+import { SimulationState, WorldDescription } from './CitySimulation';
+import { TICKS_PER_SECOND } from './FixedTimestep';
+import { MapSource, getMapKey } from './MapSource';
+import { Replay, decodeReplay } from './Replay';
+import { Difficulty, difficultyKeySuffix } from './Difficulty';
+
+// Personal best runs to the court, one per map and difficulty, raced as a ghost ball on
+// later attempts. Splits are taken when the ball first gets within a
+// fraction of its starting distance to the court.
+
+export interface GhostRecord {
+  replay: string; // encoded, see Replay
+  courtTick: number;
+  splits: (number | null)[]; // tick each checkpoint was reached
+}
+
+export const splitFractions = [0.75, 0.5, 0.25];
+
+const ghostKey = (source: MapSource, difficulty: Difficulty) =>
+  `orangeBallGhost:${getMapKey(source)}${difficultyKeySuffix(difficulty)}`;
+
+export function loadGhostRecord(source: MapSource, difficulty: Difficulty): GhostRecord | null {
+  try {
+    const savedRecord = localStorage.getItem(ghostKey(source, difficulty));
+    if (savedRecord) {
+      return JSON.parse(savedRecord);
+    }
+  } catch (e) {
+    console.log("Could not load ghost run:", e);
+  }
+  return null;
+}
+
+export function saveGhostRecord(source: MapSource, difficulty: Difficulty, record: GhostRecord): boolean {
+  try {
+    localStorage.setItem(ghostKey(source, difficulty), JSON.stringify(record));
+    return true;
+  } catch (e) {
+    console.log("Could not save ghost run:", e);
+    return false;
+  }
+}
+
+// A ghost saved by an older version can't be replayed any more, so any finish replaces it
+export function isFasterRun(record: GhostRecord | null, courtTick: number): boolean {
+  return record === null || decodeReplay(record.replay) === null || courtTick < record.courtTick;
+}
+
+// The stored replay, if it still decodes and belongs to this map and difficulty
+export function decodeGhostReplay(record: GhostRecord, source: MapSource, difficulty: Difficulty): Replay | null {
+  const replay = decodeReplay(record.replay);
+  if (!replay || getMapKey(replay.source) !== getMapKey(source) || replay.difficulty !== difficulty) return null;
+  return replay;
+}
+
+export interface SplitTracker {
+  startDistance: number;
+  splits: (number | null)[];
+}
+
+export function createSplitTracker(world: WorldDescription): SplitTracker {
+  return {
+    startDistance: world.startPosition.distanceTo(world.goalPosition),
+    splits: splitFractions.map(() => null)
+  };
+}
+
+// Record any checkpoint the ball has just reached, returning its index
+export function updateSplits(tracker: SplitTracker, sim: SimulationState, world: WorldDescription): number | null {
+  const distance = sim.ball.position.distanceTo(world.goalPosition);
+
+  for (let i = 0; i < splitFractions.length; i++) {
+    if (tracker.splits[i] === null && distance < tracker.startDistance * splitFractions[i]) {
+      tracker.splits[i] = sim.tick;
+      return i;
+    }
+  }
+
+  return null;
+}
+
+// Difference to the ghost as signed seconds, e.g. "-1.25s" when ahead
+export function formatSplitDelta(ticks: number): string {
+  const seconds = ticks / TICKS_PER_SECOND;
+  return `${seconds > 0 ? '+' : seconds < 0 ? '-' : '±'}${Math.abs(seconds).toFixed(2)}s`;
+}
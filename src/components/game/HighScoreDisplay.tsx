@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { Link } from 'react-router-dom';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -7,6 +8,7 @@ import { Button } from '@/components/ui/button';
 interface HighScoreEntry {
   name: string;
   score: number;
+  replay?: string;
 }
 
 interface HighScoreDisplayProps {
@@ -16,6 +18,7 @@ interface HighScoreDisplayProps {
   onPlayerNameChange: (name: string) => void;
   onSaveScore: () => void;
   finalScore: number;
+  title?: string;
 }
 
 const HighScoreDisplay: React.FC<HighScoreDisplayProps> = ({
@@ -24,7 +27,8 @@ const HighScoreDisplay: React.FC<HighScoreDisplayProps> = ({
   playerName,
   onPlayerNameChange,
   onSaveScore,
-  finalScore
+  finalScore,
+  title = 'High Scores'
 }) => {
   return (
     <div className="mt-4">
@@ -51,7 +55,7 @@ const HighScoreDisplay: React.FC<HighScoreDisplayProps> = ({
       )}
       
       <div>
-        <h3 className="font-bold mb-2 text-gray-700">High Scores</h3>
+        <h3 className="font-bold mb-2 text-gray-700">{title}</h3>
         <ScrollArea className="h-[150px] rounded border p-2 bg-white/90">
           {highScores.length > 0 ? (
             <div className="pr-4">
@@ -61,7 +65,18 @@ const HighScoreDisplay: React.FC<HighScoreDisplayProps> = ({
                   className="py-2 border-b border-dotted border-gray-300 flex justify-between"
                 >
                   <span className="font-medium">{index + 1}. {entry.name}</span>
-                  <span className="font-bold">{entry.score}</span>
+                  <span className="font-bold">
+                    {entry.replay && (
+                      <Link
+                        to={`/replay?r=${encodeURIComponent(entry.replay)}`}
+                        className="mr-2 text-[#FF7700] hover:underline"
+                        title="Watch replay"
+                      >
+                        ▶
+                      </Link>
+                    )}
+                    {entry.score}
+                  </span>
                 </div>
               ))}
             </div>
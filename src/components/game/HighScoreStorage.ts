@@ -0,0 +1,44 @@
+// Local leaderboards, one list per storage key
+
+export interface HighScoreEntry {
+  name: string;
+  score: number;
+  replay?: string; // encoded run, see Replay
+}
+
+// The original all-time list shared with the 2D game
+export const classicLeaderboardKey = 'orangeBallHighScores';
+
+export function loadHighScores(key: string): HighScoreEntry[] {
+  try {
+    const savedScores = localStorage.getItem(key);
+    if (savedScores) {
+      return JSON.parse(savedScores);
+    }
+  } catch (e) {
+    console.log("Could not load high scores:", e);
+  }
+  return [];
+}
+
+export function saveHighScores(key: string, scores: HighScoreEntry[]): boolean {
+  try {
+    localStorage.setItem(key, JSON.stringify(scores));
+    return true;
+  } catch (e) {
+    console.log("Could not save high scores:", e);
+    return false;
+  }
+}
+
+export function isTopScore(scores: HighScoreEntry[], score: number): boolean {
+  if (score <= 0) return false;
+  if (scores.length === 0) return true;
+
+  const sortedScores = [...scores].sort((a, b) => b.score - a.score);
+  return score > sortedScores[0].score;
+}
+
+export function addHighScore(scores: HighScoreEntry[], entry: HighScoreEntry): HighScoreEntry[] {
+  return [...scores, entry].sort((a, b) => b.score - a.score).slice(0, 10);
+}
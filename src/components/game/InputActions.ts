@@ -0,0 +1,90 @@
+import { SimulationCommand } from './CitySimulation';
+
+// Named actions the games respond to, whatever pressed them, plus analog
+// movement from a stick. Turning them into simulation commands is shared by
+// live play and replay playback, so a recorded input stream always produces
+// the same commands. Which keys press which action is up to the player, see
+// InputBindings, and gamepads are read in Gamepads.
+
+export type InputAction = 'moveLeft' | 'moveRight' | 'moveForward' | 'moveBack' | 'bounce' | 'pause' | 'camera';
+
+export const inputActions: InputAction[] = ['moveLeft', 'moveRight', 'moveForward', 'moveBack', 'bounce', 'pause', 'camera'];
+
+// The actions that steer the ball - only these are recorded in replays
+export const simulationActions: InputAction[] = ['moveLeft', 'moveRight', 'moveForward', 'moveBack', 'bounce'];
+
+export const inputActionLabels: Record<InputAction, string> = {
+  moveLeft: 'Move left',
+  moveRight: 'Move right',
+  moveForward: 'Move forward',
+  moveBack: 'Move back',
+  bounce: 'Bounce',
+  pause: 'Pause',
+  camera: 'Change camera',
+};
+
+export type MoveAxis = 'x' | 'z';
+
+// Analog values are snapped to this many steps per unit before they're
+// used, so a replay stores exactly what was played
+export const ANALOG_STEPS = 20;
+
+export const quantizeAxis = (value: number) => Math.round(value * ANALOG_STEPS) / ANALOG_STEPS;
+
+export interface ActionState {
+  held: Set<InputAction>;
+  analog: Record<MoveAxis, number>; // stick position, -1 to 1, see quantizeAxis
+}
+
+export function createActionState(): ActionState {
+  return { held: new Set(), analog: { x: 0, z: 0 } };
+}
+
+// Opposite directions cancel out, so holding both stands still on that axis
+const digitalValue = (state: ActionState, negative: InputAction, positive: InputAction) =>
+  (state.held.has(positive) ? 1 : 0) - (state.held.has(negative) ? 1 : 0);
+
+// A held direction wins over the stick
+function axisValue(state: ActionState, axis: MoveAxis): number {
+  const digital = axis === 'x'
+    ? digitalValue(state, 'moveLeft', 'moveRight')
+    : digitalValue(state, 'moveForward', 'moveBack');
+  return digital !== 0 ? digital : state.analog[axis];
+}
+
+const moveCommand = (state: ActionState, axis: MoveAxis): SimulationCommand =>
+  ({ type: 'move', axis, direction: axisValue(state, axis) });
+
+// Moves for whichever axis the action steers, from everything held now
+function moveCommands(state: ActionState, action: InputAction): SimulationCommand[] {
+  if (action === 'moveLeft' || action === 'moveRight') {
+    return [moveCommand(state, 'x')];
+  }
+  if (action === 'moveForward' || action === 'moveBack') {
+    return [moveCommand(state, 'z')];
+  }
+  return [];
+}
+
+export function actionDownCommands(state: ActionState, action: InputAction): SimulationCommand[] {
+  if (state.held.has(action)) return [];
+  state.held.add(action);
+
+  return action === 'bounce' ? [{ type: 'bounce' }] : moveCommands(state, action);
+}
+
+// Letting go of one direction leaves the other axis, and any other key on this one, alone
+export function actionUpCommands(state: ActionState, action: InputAction): SimulationCommand[] {
+  if (!state.held.has(action)) return [];
+  state.held.delete(action);
+
+  return moveCommands(state, action);
+}
+
+// The stick moved on one axis, value already quantized
+export function analogCommands(state: ActionState, axis: MoveAxis, value: number): SimulationCommand[] {
+  if (state.analog[axis] === value) return [];
+  state.analog[axis] = value;
+
+  return [moveCommand(state, axis)];
+}
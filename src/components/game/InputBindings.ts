@@ -0,0 +1,136 @@
+import { InputAction, inputActions } from './InputActions';
+
+// Which keys press which action, rebindable and kept in local storage.
+// Keys are stored the way normalizeKey reports them. Only actions reach the
+// simulation and replays, so rebinding never changes how a run plays back.
+
+export type KeyBindings = Record<InputAction, string[]>;
+
+// Slots per action on the settings screen
+export const BINDINGS_PER_ACTION = 2;
+
+export const defaultKeyBindings: KeyBindings = {
+  moveLeft: ['ArrowLeft', 'a'],
+  moveRight: ['ArrowRight', 'd'],
+  moveForward: ['ArrowUp', 'w'],
+  moveBack: ['ArrowDown', 's'],
+  bounce: [' '],
+  pause: ['Escape', 'p'],
+  camera: ['c'],
+};
+
+const keyBindingsStorageKey = 'orangeBallKeyBindings';
+
+// Collapse the different ways browsers report the space bar, and letters
+// held with Shift or Caps Lock
+export function normalizeKey(e: { key: string; code: string }): string {
+  if (e.code === 'Space') return ' ';
+  return e.key.length === 1 ? e.key.toLowerCase() : e.key;
+}
+
+const keyNames: Record<string, string> = {
+  ' ': 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+};
+
+export const describeKey = (key: string) => keyNames[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+// Every key on an action, e.g. "← / A"
+export const describeBinding = (bindings: KeyBindings, action: InputAction) =>
+  bindings[action].length > 0 ? bindings[action].map(describeKey).join(' / ') : 'Unbound';
+
+// Anything missing or malformed in storage falls back to the default for that action
+export function loadKeyBindings(): KeyBindings {
+  const bindings = { ...defaultKeyBindings };
+
+  try {
+    const savedBindings = localStorage.getItem(keyBindingsStorageKey);
+    if (savedBindings) {
+      const parsed = JSON.parse(savedBindings);
+      for (const action of inputActions) {
+        const keys = parsed?.[action];
+        if (Array.isArray(keys) && keys.every(key => typeof key === 'string')) {
+          bindings[action] = keys.slice(0, BINDINGS_PER_ACTION);
+        }
+      }
+    }
+  } catch (e) {
+    console.log("Could not load key bindings:", e);
+  }
+  return bindings;
+}
+
+export function saveKeyBindings(bindings: KeyBindings): boolean {
+  try {
+    localStorage.setItem(keyBindingsStorageKey, JSON.stringify(bindings));
+    return true;
+  } catch (e) {
+    console.log("Could not save key bindings:", e);
+    return false;
+  }
+}
+
+export function actionForKey(bindings: KeyBindings, key: string): InputAction | undefined {
+  return inputActions.find(action => bindings[action].includes(key));
+}
+
+// Put a key in one of an action's slots, taking it off whatever had it before
+export function bindKey(bindings: KeyBindings, action: InputAction, slot: number, key: string): KeyBindings {
+  const updated = { ...bindings };
+
+  for (const other of inputActions) {
+    updated[other] = updated[other].filter(bound => bound !== key);
+  }
+
+  const keys = [...updated[action]];
+  keys.splice(Math.min(slot, keys.length), 1, key);
+  updated[action] = keys;
+  return updated;
+}
+
+export function unbindKey(bindings: KeyBindings, action: InputAction, slot: number): KeyBindings {
+  return { ...bindings, [action]: bindings[action].filter((_, index) => index !== slot) };
+}
+
+// Physical keys currently down. An action stays held while any of its keys
+// is, so two keys on one action can overlap without dropping it.
+export interface KeyTracker {
+  heldKeys: Set<string>;
+}
+
+export interface ActionChange {
+  type: 'down' | 'up';
+  action: InputAction;
+}
+
+export function createKeyTracker(): KeyTracker {
+  return { heldKeys: new Set() };
+}
+
+const isActionHeld = (tracker: KeyTracker, bindings: KeyBindings, action: InputAction) =>
+  bindings[action].some(key => tracker.heldKeys.has(key));
+
+// The action a key event pressed or released, if it changed anything. Key
+// repeat while held changes nothing.
+export function trackKey(
+  tracker: KeyTracker,
+  bindings: KeyBindings,
+  type: 'down' | 'up',
+  key: string
+): ActionChange | null {
+  const action = actionForKey(bindings, key);
+  if (!action) return null;
+
+  const wasHeld = isActionHeld(tracker, bindings, action);
+  if (type === 'down') {
+    tracker.heldKeys.add(key);
+  } else {
+    tracker.heldKeys.delete(key);
+  }
+
+  return isActionHeld(tracker, bindings, action) !== wasHeld ? { type, action } : null;
+}
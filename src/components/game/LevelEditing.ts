@@ -0,0 +1,147 @@
+import {
+  BuildingLayout,
+  PersonLayout,
+  Point3,
+  PropLayout,
+  RoadLayout,
+  SurfaceLayout,
+  TreeLayout,
+  buildingColors,
+  personColors
+} from './CityGenerator';
+import { LevelData } from './Levels';
+
+// Pure editing operations behind the level editor. Every change returns a
+// new LevelData, so the editor can treat the level as plain React state.
+
+export type EntityKind = 'building' | 'road' | 'surface' | 'nail' | 'hydrant' | 'tree' | 'person' | 'start' | 'goal';
+
+export interface EntityRef {
+  kind: EntityKind;
+  index: number; // ignored for the start and goal, there is only one of each
+}
+
+// Map extent, matching the ground plane in CityScene
+export const MAP_HALF_SIZE = 100;
+
+const GRID_SNAP = 0.5;
+
+// Collections in LevelData, by entity kind
+const listKeys = {
+  building: 'buildings',
+  road: 'roads',
+  surface: 'surfaces',
+  nail: 'nails',
+  hydrant: 'hydrants',
+  tree: 'trees',
+  person: 'people',
+} as const;
+
+type ListKind = keyof typeof listKeys;
+
+const isListKind = (kind: EntityKind): kind is ListKind => kind in listKeys;
+
+export const snapToGrid = (value: number) => {
+  const snapped = Math.round(value / GRID_SNAP) * GRID_SNAP;
+  return Math.max(-MAP_HALF_SIZE, Math.min(MAP_HALF_SIZE, snapped));
+};
+
+export function createEmptyLevel(): LevelData {
+  return {
+    id: 'new-level',
+    name: 'New Level',
+    description: '',
+    start: { x: 0, y: 1, z: 0 },
+    goal: { x: 0, y: 0.5, z: -40 },
+    roads: [{ x: 0, z: -20, width: 10, depth: 60 }],
+    buildings: [],
+    nails: [],
+    hydrants: [],
+    trees: [],
+    people: [],
+    surfaces: [],
+    coins: [],
+    powerUps: []
+  };
+}
+
+// Add a new entity centred on the given point and return a reference to it
+export function placeEntity(level: LevelData, kind: EntityKind, x: number, z: number): [LevelData, EntityRef] {
+  const position = { x: snapToGrid(x), z: snapToGrid(z) };
+
+  switch (kind) {
+    case 'start':
+      return [{ ...level, start: { ...level.start, ...position } }, { kind, index: 0 }];
+    case 'goal':
+      return [{ ...level, goal: { ...level.goal, ...position } }, { kind, index: 0 }];
+    case 'building':
+      return appendEntity(level, kind, { ...position, width: 6, height: 12, depth: 6, color: buildingColors[0] });
+    case 'road':
+      return appendEntity(level, kind, { ...position, width: 10, depth: 40 });
+    case 'surface':
+      return appendEntity(level, kind, { ...position, width: 10, depth: 10, type: 'grass' });
+    case 'tree':
+      return appendEntity(level, kind, { ...position, kind: 'conical' });
+    case 'person':
+      return appendEntity(level, kind, { ...position, color: personColors[0] });
+    case 'nail':
+    case 'hydrant':
+    default:
+      return appendEntity(level, kind, position);
+  }
+}
+
+function appendEntity<T>(level: LevelData, kind: ListKind, entity: T): [LevelData, EntityRef] {
+  const key = listKeys[kind];
+  const list = [...level[key], entity];
+  return [{ ...level, [key]: list }, { kind, index: list.length - 1 }];
+}
+
+export type LevelEntity = Point3 | PropLayout | RoadLayout | BuildingLayout | TreeLayout | PersonLayout | SurfaceLayout;
+
+export function getEntity(level: LevelData, ref: EntityRef): LevelEntity {
+  if (ref.kind === 'start') return level.start;
+  if (ref.kind === 'goal') return level.goal;
+  return level[listKeys[ref.kind]][ref.index];
+}
+
+// Merge changed fields into one entity
+export function updateEntity(level: LevelData, ref: EntityRef, changes: object): LevelData {
+  if (ref.kind === 'start') return { ...level, start: { ...level.start, ...changes } };
+  if (ref.kind === 'goal') return { ...level, goal: { ...level.goal, ...changes } };
+
+  const key = listKeys[ref.kind];
+  const list = (level[key] as object[]).map((entity, index) =>
+    index === ref.index ? { ...entity, ...changes } : entity
+  );
+  return { ...level, [key]: list };
+}
+
+export function moveEntity(level: LevelData, ref: EntityRef, x: number, z: number): LevelData {
+  return updateEntity(level, ref, { x: snapToGrid(x), z: snapToGrid(z) });
+}
+
+// Drag the far corner of a building, road or surface, keeping the near corner in place
+export function resizeEntity(level: LevelData, ref: EntityRef, cornerX: number, cornerZ: number): LevelData {
+  if (ref.kind !== 'building' && ref.kind !== 'road' && ref.kind !== 'surface') return level;
+
+  const entity = level[listKeys[ref.kind]][ref.index];
+  const left = entity.x - entity.width / 2;
+  const top = entity.z - entity.depth / 2;
+  const width = Math.max(snapToGrid(cornerX) - left, 1);
+  const depth = Math.max(snapToGrid(cornerZ) - top, 1);
+
+  return updateEntity(level, ref, { width, depth, x: left + width / 2, z: top + depth / 2 });
+}
+
+// The start and the court can't be removed, every level needs them
+export function deleteEntity(level: LevelData, ref: EntityRef): LevelData {
+  if (!isListKind(ref.kind)) return level;
+
+  const key = listKeys[ref.kind];
+  return { ...level, [key]: (level[key] as object[]).filter((_, index) => index !== ref.index) };
+}
+
+export function canDelete(ref: EntityRef): boolean {
+  return isListKind(ref.kind);
+}
@@ -0,0 +1,537 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { toast } from '@/components/ui/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { buildingColors, personColors } from './CityGenerator';
+import { simulationSettings } from './CitySimulation';
+import { LevelData, campaignLevels, parseLevelData } from './Levels';
+import { surfaceColors, surfaceLabels, surfaceTypes } from './Surfaces';
+import {
+  EntityKind,
+  EntityRef,
+  MAP_HALF_SIZE,
+  canDelete,
+  createEmptyLevel,
+  deleteEntity,
+  getEntity,
+  moveEntity,
+  placeEntity,
+  resizeEntity,
+  updateEntity
+} from './LevelEditing';
+
+interface LevelEditorProps {
+  level: LevelData;
+  onChange: (level: LevelData) => void;
+  onPlayTest: () => void;
+}
+
+type Tool = 'select' | EntityKind;
+
+const tools: { tool: Tool; label: string }[] = [
+  { tool: 'select', label: 'Select / Move' },
+  { tool: 'building', label: 'Building' },
+  { tool: 'road', label: 'Road' },
+  { tool: 'surface', label: 'Surface' },
+  { tool: 'nail', label: 'Nail' },
+  { tool: 'hydrant', label: 'Hydrant' },
+  { tool: 'tree', label: 'Tree' },
+  { tool: 'person', label: 'Person' },
+  { tool: 'start', label: 'Start' },
+  { tool: 'goal', label: 'Court' },
+];
+
+const entityLabels: Record<EntityKind, string> = {
+  building: 'Building',
+  road: 'Road',
+  surface: 'Surface',
+  nail: 'Nail',
+  hydrant: 'Hydrant',
+  tree: 'Tree',
+  person: 'Person',
+  start: 'Start',
+  goal: 'Basketball court',
+};
+
+interface DragState {
+  mode: 'move' | 'resize';
+  ref: EntityRef;
+  offsetX: number;
+  offsetZ: number;
+}
+
+const toHex = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+const LevelEditor: React.FC<LevelEditorProps> = ({ level, onChange, onPlayTest }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [tool, setTool] = useState<Tool>('select');
+  const [selection, setSelection] = useState<EntityRef | null>(null);
+
+  // Keep the latest level for the window key handler
+  const levelRef = useRef(level);
+  levelRef.current = level;
+  const selectionRef = useRef(selection);
+  selectionRef.current = selection;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave typing in the property fields alone
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      const selected = selectionRef.current;
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selected && canDelete(selected)) {
+        onChange(deleteEntity(levelRef.current, selected));
+        setSelection(null);
+      } else if (e.key === 'Escape') {
+        setSelection(null);
+        setTool('select');
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onChange]);
+
+  // Pointer position in map coordinates - the SVG is laid out in world x/z
+  const toMap = (e: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return { x: 0, z: 0 };
+
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const mapPoint = point.matrixTransform(matrix.inverse());
+    return { x: mapPoint.x, z: mapPoint.y };
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: DragState['mode'], ref: EntityRef) => {
+    const { x, z } = toMap(e);
+    const entity = getEntity(level, ref);
+    dragRef.current = { mode, ref, offsetX: entity.x - x, offsetZ: entity.z - z };
+    svgRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handleEntityPointerDown = (ref: EntityRef) => (e: React.PointerEvent) => {
+    // With a placement tool, clicks go through to the map
+    if (tool !== 'select') return;
+
+    e.stopPropagation();
+    setSelection(ref);
+    startDrag(e, 'move', ref);
+  };
+
+  const handleResizePointerDown = (ref: EntityRef) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    startDrag(e, 'resize', ref);
+  };
+
+  const handleMapPointerDown = (e: React.PointerEvent) => {
+    if (tool === 'select') {
+      setSelection(null);
+      return;
+    }
+
+    const { x, z } = toMap(e);
+    const [nextLevel, ref] = placeEntity(level, tool, x, z);
+    onChange(nextLevel);
+    setSelection(ref);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const { x, z } = toMap(e);
+    if (drag.mode === 'move') {
+      onChange(moveEntity(level, drag.ref, x + drag.offsetX, z + drag.offsetZ));
+    } else {
+      onChange(resizeEntity(level, drag.ref, x, z));
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const isSelected = (kind: EntityKind, index = 0) =>
+    selection !== null && selection.kind === kind && selection.index === index;
+
+  const selectionStroke = (kind: EntityKind, index = 0) =>
+    isSelected(kind, index) ? { stroke: '#FACC15', strokeWidth: 0.5 } : {};
+
+  const renderSized = (kind: 'building' | 'road' | 'surface', index: number, entity: { x: number; z: number; width: number; depth: number }, fill: string) => (
+    <g key={`${kind}-${index}`} onPointerDown={handleEntityPointerDown({ kind, index })}>
+      <rect
+        x={entity.x - entity.width / 2}
+        y={entity.z - entity.depth / 2}
+        width={entity.width}
+        height={entity.depth}
+        fill={fill}
+        {...selectionStroke(kind, index)}
+      />
+      {isSelected(kind, index) && (
+        <rect
+          x={entity.x + entity.width / 2 - 1}
+          y={entity.z + entity.depth / 2 - 1}
+          width={2}
+          height={2}
+          fill="#FFFFFF"
+          stroke="#FACC15"
+          strokeWidth={0.3}
+          className="cursor-nwse-resize"
+          onPointerDown={handleResizePointerDown({ kind, index })}
+        />
+      )}
+    </g>
+  );
+
+  const renderProp = (kind: EntityKind, index: number, x: number, z: number, radius: number, fill: string) => (
+    <circle
+      key={`${kind}-${index}`}
+      cx={x}
+      cy={z}
+      r={radius}
+      fill={fill}
+      onPointerDown={handleEntityPointerDown({ kind, index })}
+      {...selectionStroke(kind, index)}
+    />
+  );
+
+  const updateSelected = (changes: object) => {
+    if (selection) {
+      onChange(updateEntity(level, selection, changes));
+    }
+  };
+
+  const numberField = (field: string, label: string, value: number, min?: number) => (
+    <div key={field}>
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        step={0.5}
+        min={min}
+        value={value}
+        onChange={(e) => {
+          const parsed = Number(e.target.value);
+          if (e.target.value !== '' && Number.isFinite(parsed) && (min === undefined || parsed >= min)) {
+            updateSelected({ [field]: parsed });
+          }
+        }}
+      />
+    </div>
+  );
+
+  const colorField = (colors: number[], value: number) => (
+    <div className="flex gap-1 mt-2">
+      {colors.map(color => (
+        <button
+          key={color}
+          className={`h-6 w-6 rounded border-2 ${color === value ? 'border-[#FF7700]' : 'border-transparent'}`}
+          style={{ backgroundColor: toHex(color) }}
+          onClick={() => updateSelected({ color })}
+          title={toHex(color)}
+        />
+      ))}
+    </div>
+  );
+
+  const renderProperties = () => {
+    if (!selection) {
+      return <p className="text-sm text-gray-500 italic">Select something on the map to edit it.</p>;
+    }
+
+    const entity = getEntity(level, selection);
+
+    return (
+      <div>
+        <h3 className="font-bold mb-2">{entityLabels[selection.kind]}</h3>
+        <div className="grid grid-cols-2 gap-2">
+          {numberField('x', 'X', entity.x)}
+          {numberField('z', 'Z', entity.z)}
+          {'width' in entity && numberField('width', 'Width', entity.width, 1)}
+          {'depth' in entity && numberField('depth', 'Depth', entity.depth, 1)}
+          {'height' in entity && numberField('height', 'Height', entity.height, 1)}
+        </div>
+        {selection.kind === 'building' && 'color' in entity && colorField(buildingColors, entity.color)}
+        {selection.kind === 'person' && 'color' in entity && colorField(personColors, entity.color)}
+        {'type' in entity && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {surfaceTypes.map(type => (
+              <Button
+                key={type}
+                size="sm"
+                variant={entity.type === type ? 'default' : 'outline'}
+                onClick={() => updateSelected({ type })}
+              >
+                {surfaceLabels[type]}
+              </Button>
+            ))}
+          </div>
+        )}
+        {'kind' in entity && (
+          <div className="flex gap-2 mt-2">
+            {(['conical', 'spherical'] as const).map(kind => (
+              <Button
+                key={kind}
+                size="sm"
+                variant={entity.kind === kind ? 'default' : 'outline'}
+                onClick={() => updateSelected({ kind })}
+              >
+                {kind === 'conical' ? 'Pine' : 'Round'}
+              </Button>
+            ))}
+          </div>
+        )}
+        {canDelete(selection) && (
+          <Button
+            variant="destructive"
+            size="sm"
+            className="mt-3 w-full"
+            onClick={() => {
+              onChange(deleteEntity(level, selection));
+              setSelection(null);
+            }}
+          >
+            Delete
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const replaceLevel = (nextLevel: LevelData) => {
+    setSelection(null);
+    onChange(nextLevel);
+  };
+
+  const loadCampaignLevel = (id: string) => {
+    const campaignLevel = campaignLevels.find(candidate => candidate.id === id);
+    if (campaignLevel) {
+      replaceLevel(JSON.parse(JSON.stringify(campaignLevel)));
+    }
+  };
+
+  const levelJson = () => JSON.stringify(level, null, 2) + '\n';
+
+  const exportLevel = () => {
+    const blob = new Blob([levelJson()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${level.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyLevel = () => {
+    navigator.clipboard.writeText(levelJson()).then(
+      () => toast({ title: "Level copied", description: "Paste it into a file in the levels folder" }),
+      () => toast({ title: "Could not copy level", variant: "destructive" })
+    );
+  };
+
+  const importLevel = async (file: File) => {
+    try {
+      const imported = parseLevelData(JSON.parse(await file.text()));
+      if (!imported) {
+        throw new Error('Not a level file');
+      }
+
+      replaceLevel(imported);
+      toast({ title: "Level imported", description: imported.name });
+    } catch (e) {
+      toast({
+        title: "Could not import level",
+        description: "The file isn't a valid level JSON",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="h-screen w-screen flex overflow-hidden bg-gray-100">
+      <div className="w-80 shrink-0 overflow-y-auto bg-white border-r p-4 space-y-5">
+        <div className="flex justify-between items-center">
+          <h1 className="text-xl font-bold text-[#FF7700]">Level Editor</h1>
+          <Link to="/" className="text-sm text-blue-500 hover:text-blue-700 underline">
+            Back to the game
+          </Link>
+        </div>
+
+        <Button
+          onClick={onPlayTest}
+          className="w-full bg-[#FF7700] hover:bg-[#FF9933] text-white"
+        >
+          Play-test
+        </Button>
+
+        <div className="space-y-2">
+          <div>
+            <Label className="text-xs">Level id</Label>
+            <Input
+              value={level.id}
+              onChange={(e) => onChange({ ...level, id: e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '-') })}
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Name</Label>
+            <Input value={level.name} onChange={(e) => onChange({ ...level, name: e.target.value })} />
+          </div>
+          <div>
+            <Label className="text-xs">Description</Label>
+            <Textarea
+              value={level.description}
+              onChange={(e) => onChange({ ...level, description: e.target.value })}
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <div>
+          <h2 className="font-bold mb-2">Tools</h2>
+          <div className="grid grid-cols-2 gap-1">
+            {tools.map(option => (
+              <Button
+                key={option.tool}
+                size="sm"
+                variant={tool === option.tool ? 'default' : 'outline'}
+                onClick={() => setTool(option.tool)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-500">
+            Click the map to place. Drag to move, drag the corner handle to resize, Delete to remove.
+          </p>
+        </div>
+
+        <div>{renderProperties()}</div>
+
+        <div className="space-y-2">
+          <h2 className="font-bold">Level file</h2>
+          <Select onValueChange={loadCampaignLevel}>
+            <SelectTrigger>
+              <SelectValue placeholder="Open a campaign level" />
+            </SelectTrigger>
+            <SelectContent>
+              {campaignLevels.map(campaignLevel => (
+                <SelectItem key={campaignLevel.id} value={campaignLevel.id}>
+                  {campaignLevel.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-1">
+            <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+              Import JSON
+            </Button>
+            <Button size="sm" variant="outline" onClick={exportLevel}>
+              Export JSON
+            </Button>
+            <Button size="sm" variant="outline" onClick={copyLevel}>
+              Copy JSON
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => replaceLevel(createEmptyLevel())}>
+              New Level
+            </Button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) {
+                importLevel(file);
+              }
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 p-4">
+        <svg
+          ref={svgRef}
+          viewBox={`${-MAP_HALF_SIZE} ${-MAP_HALF_SIZE} ${MAP_HALF_SIZE * 2} ${MAP_HALF_SIZE * 2}`}
+          className={`h-full w-full touch-none ${tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {/* Ground - the map is seen from above, with -Z (forward) at the top */}
+          <rect
+            x={-MAP_HALF_SIZE}
+            y={-MAP_HALF_SIZE}
+            width={MAP_HALF_SIZE * 2}
+            height={MAP_HALF_SIZE * 2}
+            fill="#333333"
+            onPointerDown={handleMapPointerDown}
+          />
+
+          {level.roads.map((road, index) => renderSized('road', index, road, '#555555'))}
+
+          <g onPointerDown={handleEntityPointerDown({ kind: 'goal', index: 0 })}>
+            <rect
+              x={level.goal.x - 7.5}
+              y={level.goal.z - 7.5}
+              width={15}
+              height={15}
+              fill="#CD853F"
+              {...selectionStroke('goal')}
+            />
+            <circle
+              cx={level.goal.x}
+              cy={level.goal.z}
+              r={simulationSettings.goalRadius}
+              fill="none"
+              stroke="#FFFFFF"
+              strokeWidth={0.2}
+              strokeDasharray="1 1"
+            />
+          </g>
+
+          {level.buildings.map((building, index) => renderSized('building', index, building, toHex(building.color)))}
+          {/* Surfaces after buildings, so the ones painted on roofs show */}
+          {level.surfaces.map((surface, index) => renderSized('surface', index, surface, toHex(surfaceColors[surface.type])))}
+          {level.nails.map((nail, index) => renderProp('nail', index, nail.x, nail.z, 0.6, '#C0C0C0'))}
+          {level.hydrants.map((hydrant, index) => renderProp('hydrant', index, hydrant.x, hydrant.z, 0.7, '#DD2222'))}
+          {level.trees.map((tree, index) => renderProp('tree', index, tree.x, tree.z, 1.5, tree.kind === 'conical' ? '#1F6F2A' : '#2E8B57'))}
+          {level.people.map((person, index) => renderProp('person', index, person.x, person.z, 0.6, toHex(person.color)))}
+
+          <g onPointerDown={handleEntityPointerDown({ kind: 'start', index: 0 })}>
+            <circle cx={level.start.x} cy={level.start.z} r={1.5} fill="#FF7700" {...selectionStroke('start')} />
+            <text
+              x={level.start.x}
+              y={level.start.z + 0.7}
+              fontSize={2}
+              textAnchor="middle"
+              fill="#FFFFFF"
+              className="pointer-events-none select-none"
+            >
+              S
+            </text>
+          </g>
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditor;
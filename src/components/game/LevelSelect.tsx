@@ -0,0 +1,59 @@
+
+import React from 'react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { campaignLevels } from './Levels';
+import { CampaignProgress, isLevelCompleted, isLevelUnlocked } from './CampaignProgress';
+
+interface LevelSelectProps {
+  progress: CampaignProgress;
+  onSelectLevel: (id: string) => void;
+  onClose: () => void;
+}
+
+const LevelSelect: React.FC<LevelSelectProps> = ({ progress, onSelectLevel, onClose }) => {
+  return (
+    <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white/95 p-5 rounded-lg border-2 border-[#FF7700] w-[90%] max-w-md z-20 shadow-xl">
+      <h1 className="text-2xl font-bold mb-1 text-[#FF7700] text-center">Campaign</h1>
+      <p className="text-sm text-gray-600 mb-4 text-center">
+        {progress.completed.length} of {campaignLevels.length} levels completed
+      </p>
+      
+      <ScrollArea className="h-[300px] pr-2">
+        <div className="space-y-2">
+          {campaignLevels.map((level, index) => {
+            const unlocked = isLevelUnlocked(progress, index);
+            const completed = isLevelCompleted(progress, level.id);
+            
+            return (
+              <button
+                key={level.id}
+                disabled={!unlocked}
+                onClick={() => onSelectLevel(level.id)}
+                className="w-full text-left p-3 rounded-md border-2 border-[#FF7700]/40 hover:border-[#FF7700] hover:bg-orange-50 transition-colors disabled:opacity-50 disabled:hover:border-[#FF7700]/40 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+              >
+                <div className="flex justify-between font-bold">
+                  <span>{index + 1}. {level.name}</span>
+                  <span>{completed ? '✅' : unlocked ? '' : '🔒'}</span>
+                </div>
+                <p className="text-sm text-gray-600">
+                  {unlocked ? level.description : 'Complete the previous level to unlock'}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      </ScrollArea>
+      
+      <div className="mt-4 flex justify-center">
+        <button 
+          className="px-4 py-2 border-2 border-[#FF7700] text-[#FF7700] hover:bg-[#FF7700] hover:text-white rounded-md transition-colors"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LevelSelect;
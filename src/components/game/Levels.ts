@@ -0,0 +1,207 @@
+import {
+  BuildingLayout,
+  CityLayout,
+  PersonLayout,
+  Point3,
+  PowerUpLayout,
+  PropLayout,
+  RoadLayout,
+  SurfaceLayout,
+  TreeLayout,
+  generateClouds
+} from './CityGenerator';
+import { hashString } from './SeededRandom';
+import { surfaceTypes } from './Surfaces';
+import { FireEscape } from './Rooftops';
+import { powerUpTypes } from './PowerUps';
+import firstBounce from './levels/01-first-bounce.json';
+import nailAlley from './levels/02-nail-alley.json';
+import aroundTheBlock from './levels/03-around-the-block.json';
+import rushHour from './levels/04-rush-hour.json';
+
+// Authored campaign levels. Each one is a data file in ./levels declaring
+// the whole map, and is loaded into the same CityLayout the generator
+// produces, so the scene and simulation don't care where a map came from.
+
+export interface LevelData {
+  id: string;
+  name: string;
+  description: string;
+  start: Point3;
+  goal: Point3;
+  roads: RoadLayout[];
+  buildings: BuildingLayout[];
+  nails: PropLayout[];
+  hydrants: PropLayout[];
+  trees: TreeLayout[];
+  people: PersonLayout[];
+  surfaces: SurfaceLayout[];
+  coins: Point3[];
+  powerUps: PowerUpLayout[];
+}
+
+export function getLevel(id: string): LevelData | undefined {
+  return campaignLevels.find(level => level.id === id);
+}
+
+export function getLevelIndex(id: string): number {
+  return campaignLevels.findIndex(level => level.id === id);
+}
+
+export function getNextLevel(id: string): LevelData | undefined {
+  const index = getLevelIndex(id);
+  return index >= 0 ? campaignLevels[index + 1] : undefined;
+}
+
+export function levelToCityLayout(level: LevelData): CityLayout {
+  // Levels are fixed, the seed only picks the clouds
+  const seed = hashString(`level:${level.id}`);
+
+  return {
+    seed,
+    start: { ...level.start },
+    goal: { ...level.goal },
+    roads: level.roads,
+    buildings: level.buildings,
+    nails: level.nails,
+    hydrants: level.hydrants,
+    trees: level.trees,
+    people: level.people,
+    surfaces: level.surfaces,
+    coins: level.coins,
+    powerUps: level.powerUps,
+    clouds: generateClouds(seed)
+  };
+}
+
+type RawObject = { [key: string]: unknown };
+
+const asObject = (value: unknown): RawObject | null =>
+  typeof value === 'object' && value !== null ? value as RawObject : null;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const readPoint = (value: unknown): Point3 | null => {
+  const point = asObject(value);
+  return point && isNumber(point.x) && isNumber(point.y) && isNumber(point.z)
+    ? { x: point.x, y: point.y, z: point.z }
+    : null;
+};
+
+const readList = <T>(value: unknown, readItem: (item: RawObject) => T | null): T[] | null => {
+  if (!Array.isArray(value)) return null;
+  const items = value.map(item => {
+    const object = asObject(item);
+    return object && readItem(object);
+  });
+  return items.every(item => item !== null) ? items : null;
+};
+
+const readProp = (item: RawObject): PropLayout | null =>
+  isNumber(item.x) && isNumber(item.z) ? { x: item.x, z: item.z } : null;
+
+const readRoad = (item: RawObject): RoadLayout | null => {
+  const prop = readProp(item);
+  return prop && isNumber(item.width) && isNumber(item.depth) && item.width > 0 && item.depth > 0
+    ? { ...prop, width: item.width, depth: item.depth }
+    : null;
+};
+
+const readFireEscape = (value: unknown): FireEscape | null => {
+  const fireEscape = asObject(value);
+  return fireEscape && (fireEscape.axis === 'x' || fireEscape.axis === 'z') &&
+    (fireEscape.direction === 1 || fireEscape.direction === -1)
+    ? { axis: fireEscape.axis, direction: fireEscape.direction }
+    : null;
+};
+
+const readBuilding = (item: RawObject): BuildingLayout | null => {
+  const road = readRoad(item);
+  if (!road || !isNumber(item.height) || item.height <= 0 || !isNumber(item.color)) return null;
+
+  const building = { x: road.x, z: road.z, width: road.width, height: item.height, depth: road.depth, color: item.color };
+  if (item.fireEscape === undefined) return building;
+
+  const fireEscape = readFireEscape(item.fireEscape);
+  return fireEscape && { ...building, fireEscape };
+};
+
+const readTree = (item: RawObject): TreeLayout | null => {
+  const prop = readProp(item);
+  return prop && (item.kind === 'conical' || item.kind === 'spherical') ? { ...prop, kind: item.kind } : null;
+};
+
+const readPerson = (item: RawObject): PersonLayout | null => {
+  const prop = readProp(item);
+  return prop && isNumber(item.color) ? { ...prop, color: item.color } : null;
+};
+
+const readSurface = (item: RawObject): SurfaceLayout | null => {
+  const road = readRoad(item);
+  const type = surfaceTypes.find(candidate => candidate === item.type);
+  return road && type ? { ...road, type } : null;
+};
+
+const readPowerUp = (item: RawObject): PowerUpLayout | null => {
+  const point = readPoint(item);
+  const type = powerUpTypes.find(candidate => candidate === item.type);
+  return point && type ? { ...point, type } : null;
+};
+
+// Check a level loaded from outside the game's own code (a bundled or
+// imported file), keeping only the fields the game knows about
+export function parseLevelData(value: unknown): LevelData | null {
+  const data = asObject(value);
+  if (!data || typeof data.id !== 'string' || !data.id || typeof data.name !== 'string') return null;
+
+  const start = readPoint(data.start);
+  const goal = readPoint(data.goal);
+  const roads = readList(data.roads, readRoad);
+  const buildings = readList(data.buildings, readBuilding);
+  const nails = readList(data.nails, readProp);
+  const hydrants = readList(data.hydrants, readProp);
+  const trees = readList(data.trees, readTree);
+  const people = readList(data.people, readPerson);
+  // Levels from before surfaces, coins or power-ups have none
+  const surfaces = data.surfaces === undefined ? [] : readList(data.surfaces, readSurface);
+  const coins = data.coins === undefined ? [] : readList(data.coins, readPoint);
+  const powerUps = data.powerUps === undefined ? [] : readList(data.powerUps, readPowerUp);
+
+  if (!start || !goal || !roads || !buildings || !nails || !hydrants || !trees || !people || !surfaces ||
+      !coins || !powerUps) return null;
+
+  return {
+    id: data.id,
+    name: data.name,
+    description: typeof data.description === 'string' ? data.description : '',
+    start,
+    goal,
+    roads,
+    buildings,
+    nails,
+    hydrants,
+    trees,
+    people,
+    surfaces,
+    coins,
+    powerUps
+  };
+}
+
+// The bundled levels get the same checks, so a broken or out-of-date file
+// fails as the game loads, not partway into building its city
+function loadBundledLevel(value: unknown, file: string): LevelData {
+  const level = parseLevelData(value);
+  if (!level) {
+    throw new Error(`Campaign level ${file} is not valid level data`);
+  }
+  return level;
+}
+
+// Campaign order - each level unlocks the next
+export const campaignLevels: LevelData[] = [
+  loadBundledLevel(firstBounce, '01-first-bounce.json'),
+  loadBundledLevel(nailAlley, '02-nail-alley.json'),
+  loadBundledLevel(aroundTheBlock, '03-around-the-block.json'),
+  loadBundledLevel(rushHour, '04-rush-hour.json'),
+];
@@ -0,0 +1,90 @@
+import { CityLayout, generateCityLayout } from './CityGenerator';
+import { Difficulty, difficultyKeySuffix } from './Difficulty';
+import { getDailyKey, getDailyLeaderboardKey } from './DailyChallenge';
+import { classicLeaderboardKey } from './HighScoreStorage';
+import { LevelData, getLevel, getLevelIndex, levelToCityLayout } from './Levels';
+import { hashString } from './SeededRandom';
+
+// Where a run's city comes from. Enough to rebuild the exact same layout,
+// which is what replays and leaderboards rely on together with the
+// difficulty, since that changes generated cities. Custom levels (play-tests
+// from the editor) carry their whole map with them.
+export type MapSource =
+  | { mode: 'classic'; seed: number }
+  | { mode: 'daily'; seed: number; day: string }
+  | { mode: 'level'; levelId: string }
+  | { mode: 'custom'; level: LevelData };
+
+export function createLayoutForSource(source: MapSource, difficulty: Difficulty): CityLayout {
+  switch (source.mode) {
+    case 'daily':
+      // The daily city also moves the court
+      return generateCityLayout(source.seed, { randomGoal: true, difficulty });
+    case 'level': {
+      const level = getLevel(source.levelId);
+      if (!level) {
+        throw new Error(`Unknown level: ${source.levelId}`);
+      }
+      return levelToCityLayout(level);
+    }
+    case 'custom':
+      return levelToCityLayout(source.level);
+    case 'classic':
+    default:
+      return generateCityLayout(source.seed, { difficulty });
+  }
+}
+
+export function describeMapSource(source: MapSource): string {
+  switch (source.mode) {
+    case 'daily':
+      return `Daily City ${source.day}`;
+    case 'level':
+      return `Level ${getLevelIndex(source.levelId) + 1}: ${getLevel(source.levelId)?.name ?? source.levelId}`;
+    case 'custom':
+      return `Play-test: ${source.level.name}`;
+    case 'classic':
+    default:
+      return `Seed: ${source.seed}`;
+  }
+}
+
+export function createDailySource(seed: number, date: Date = new Date()): MapSource {
+  return { mode: 'daily', seed, day: getDailyKey(date) };
+}
+
+// Stable identifier for per-map records such as ghosts
+export function getMapKey(source: MapSource): string {
+  switch (source.mode) {
+    case 'daily':
+      return `daily:${source.day}:${source.seed}`;
+    case 'level':
+      return `level:${source.levelId}`;
+    case 'custom':
+      // Any edit makes it a different map
+      return `custom:${hashString(JSON.stringify(source.level))}`;
+    case 'classic':
+    default:
+      return `classic:${source.seed}`;
+  }
+}
+
+// Score leaderboard for runs on this map - random cities share one list
+// per difficulty
+export function getScoreLeaderboardKey(source: MapSource, difficulty: Difficulty): string {
+  return `${getBaseLeaderboardKey(source)}${difficultyKeySuffix(difficulty)}`;
+}
+
+function getBaseLeaderboardKey(source: MapSource): string {
+  switch (source.mode) {
+    case 'daily':
+      return getDailyLeaderboardKey(source.day);
+    case 'level':
+      return `orangeBallLevelScores:${source.levelId}`;
+    case 'custom':
+      return `orangeBallCustomScores:${getMapKey(source)}`;
+    case 'classic':
+    default:
+      return classicLeaderboardKey;
+  }
+}
@@ -0,0 +1,295 @@
+import * as THREE from 'three';
+import { hashString } from './SeededRandom';
+import { queryGrid } from './SpatialGrid';
+import { WorldDescription, WorldObstacle } from './CitySimulation';
+import { Car, drivingArea } from './Traffic';
+
+// Pedestrians walking the road network. They are stepped by the simulation,
+// so every run - and every replay of it - sees them in the same place on the
+// same tick. People keep to the pavement, sometimes turn at a crossing, wait
+// for whoever is in front and for cars driving across their path, turn back
+// at dead ends and buildings, and step aside when the ball bounces next to them.
+
+export const pedestrianSettings = {
+  walkSpeed: 0.04,
+  laneOffset: 3.5, // from the road's centre line, on the pavement either side of the car lanes
+  laneChangeSpeed: 0.03,
+  personalSpace: 1.2,
+  maxWaitTicks: 30, // then squeeze past, so two people at a crossing never wait forever
+  turnChance: 0.5,
+  roadEndMargin: 1,
+  reactRadius: 4,
+  startledTicks: 60,
+  dodgeTicks: 15, // the first part of being startled is spent stepping aside
+  dodgeSpeed: 0.08,
+};
+
+// A road, walked along its long axis
+export interface Walkway {
+  axis: 'x' | 'z';
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+// Where a person stands when the run starts
+export interface PedestrianSpawn {
+  position: THREE.Vector3;
+  bounds: THREE.Box3;
+}
+
+export interface Pedestrian {
+  position: THREE.Vector3;
+  walkway: number; // index into the world's walkways, -1 for someone standing off-road
+  direction: number; // 1 or -1 along the walkway's axis
+  heading: number; // facing angle around y, for drawing
+  stride: number; // distance walked, drives the limb swing
+  waitTicks: number;
+  startledTicks: number;
+  dodge: number; // which way to step aside while startled
+  obstacle: WorldObstacle; // what the ball collides with, moved along with the person
+}
+
+type Axis = 'x' | 'z';
+
+const otherAxis = (axis: Axis): Axis => axis === 'x' ? 'z' : 'x';
+
+const walkwayMin = (walkway: Walkway, axis: Axis) => axis === 'x' ? walkway.minX : walkway.minZ;
+const walkwayMax = (walkway: Walkway, axis: Axis) => axis === 'x' ? walkway.maxX : walkway.maxZ;
+const walkwayCentre = (walkway: Walkway, axis: Axis) => (walkwayMin(walkway, axis) + walkwayMax(walkway, axis)) / 2;
+
+const containsPoint = (walkway: Walkway, position: THREE.Vector3) =>
+  position.x >= walkway.minX && position.x <= walkway.maxX &&
+  position.z >= walkway.minZ && position.z <= walkway.maxZ;
+
+// Facing angle for walking one way along an axis, with +z as the model's front
+const headingFor = (axis: Axis, direction: number) =>
+  axis === 'x' ? direction * Math.PI / 2 : (direction > 0 ? 0 : Math.PI);
+
+// Deterministic 0..1 roll per person, tick and purpose - no state to carry around
+const roll = (index: number, tick: number, purpose: string) =>
+  hashString(`${purpose}:${index}:${tick}`) / 4294967296;
+
+export function walkwayFromRoad(x: number, z: number, width: number, depth: number): Walkway {
+  return {
+    axis: width >= depth ? 'x' : 'z',
+    minX: x - width / 2,
+    maxX: x + width / 2,
+    minZ: z - depth / 2,
+    maxZ: z + depth / 2
+  };
+}
+
+// Arm and leg swing for drawing, in radians - none while standing still
+export function limbSwing(pedestrian: Pedestrian): number {
+  if (pedestrian.walkway < 0 || pedestrian.waitTicks > 0 || pedestrian.startledTicks > 0) return 0;
+  return Math.sin(pedestrian.stride * 6) * 0.5;
+}
+
+export function createPedestrians(world: WorldDescription): Pedestrian[] {
+  return world.pedestrians.map((spawn, index) => {
+    const walkway = world.walkways.findIndex(candidate => containsPoint(candidate, spawn.position));
+    const direction = index % 2 === 0 ? 1 : -1;
+
+    return {
+      position: spawn.position.clone(),
+      walkway,
+      direction,
+      heading: walkway >= 0 ? headingFor(world.walkways[walkway].axis, direction) : 0,
+      stride: 0,
+      waitTicks: 0,
+      startledTicks: 0,
+      dodge: 0,
+      obstacle: { type: 'person', dangerous: false, bounds: spawn.bounds.clone() }
+    };
+  });
+}
+
+// Advance everyone by one tick. ballBounced is whether the ball bounced this tick.
+export function stepPedestrians(
+  pedestrians: Pedestrian[],
+  world: WorldDescription,
+  cars: Car[],
+  ballPosition: THREE.Vector3,
+  ballBounced: boolean,
+  tick: number
+) {
+  pedestrians.forEach((pedestrian, index) => {
+    if (pedestrian.walkway < 0) return;
+
+    if (ballBounced && pedestrian.startledTicks === 0 &&
+        horizontalDistance(pedestrian.position, ballPosition) < pedestrianSettings.reactRadius) {
+      startle(pedestrian, world, ballPosition);
+    }
+
+    if (pedestrian.startledTicks > 0) {
+      stepStartled(pedestrian, world);
+    } else {
+      walk(pedestrian, index, pedestrians, cars, world, tick);
+    }
+  });
+}
+
+const horizontalDistance = (a: THREE.Vector3, b: THREE.Vector3) => Math.hypot(a.x - b.x, a.z - b.z);
+
+function startle(pedestrian: Pedestrian, world: WorldDescription, ballPosition: THREE.Vector3) {
+  const lateral = otherAxis(world.walkways[pedestrian.walkway].axis);
+
+  pedestrian.startledTicks = pedestrianSettings.startledTicks;
+  pedestrian.dodge = Math.sign(pedestrian.position[lateral] - ballPosition[lateral]) || pedestrian.direction;
+  pedestrian.waitTicks = 0;
+}
+
+// Step aside, away from the ball, then stand still until the fright wears off
+function stepStartled(pedestrian: Pedestrian, world: WorldDescription) {
+  const { dodgeSpeed, dodgeTicks, startledTicks } = pedestrianSettings;
+  const walkway = world.walkways[pedestrian.walkway];
+  const lateral = otherAxis(walkway.axis);
+
+  if (startledTicks - pedestrian.startledTicks < dodgeTicks) {
+    const target = clampToWalkway(walkway, lateral, pedestrian.position[lateral] + pedestrian.dodge * dodgeSpeed);
+    const offset = moveOffset.set(0, 0, 0);
+    offset[lateral] = target - pedestrian.position[lateral];
+    tryMove(pedestrian, world, offset);
+  }
+
+  pedestrian.startledTicks--;
+}
+
+function walk(
+  pedestrian: Pedestrian,
+  index: number,
+  pedestrians: Pedestrian[],
+  cars: Car[],
+  world: WorldDescription,
+  tick: number
+) {
+  const { walkSpeed, laneOffset, laneChangeSpeed, maxWaitTicks, roadEndMargin, turnChance } = pedestrianSettings;
+  const walkway = world.walkways[pedestrian.walkway];
+  const { axis } = walkway;
+  const lateral = otherAxis(axis);
+
+  // Wait for whoever is in front
+  if (isBlocked(pedestrian, index, pedestrians, axis, lateral) && pedestrian.waitTicks < maxWaitTicks) {
+    pedestrian.waitTicks++;
+    return;
+  }
+  pedestrian.waitTicks = 0;
+
+  const from = pedestrian.position[axis];
+  const to = from + pedestrian.direction * walkSpeed;
+
+  // Dead end - turn around
+  if (to < walkwayMin(walkway, axis) + roadEndMargin || to > walkwayMax(walkway, axis) - roadEndMargin) {
+    turnAround(pedestrian, axis);
+    return;
+  }
+
+  // Drift over to the pavement on whichever side of the road they are, so
+  // nobody wanders across the car lanes
+  const centre = walkwayCentre(walkway, lateral);
+  const side = Math.sign(pedestrian.position[lateral] - centre) || pedestrian.direction;
+  const lane = clampToWalkway(walkway, lateral, centre + side * laneOffset);
+  const drift = THREE.MathUtils.clamp(lane - pedestrian.position[lateral], -laneChangeSpeed, laneChangeSpeed);
+
+  const offset = moveOffset.set(0, 0, 0);
+  offset[axis] = to - from;
+  offset[lateral] = drift;
+
+  // Let a car go by first
+  if (isCarInTheWay(pedestrian, cars, world, offset)) {
+    pedestrian.waitTicks++;
+    return;
+  }
+
+  // A building in the way - turn around
+  if (!tryMove(pedestrian, world, offset)) {
+    turnAround(pedestrian, axis);
+    return;
+  }
+  pedestrian.stride += walkSpeed;
+
+  const crossing = findCrossing(world.walkways, pedestrian, axis, from, to);
+  if (crossing >= 0 && roll(index, tick, 'turn') < turnChance) {
+    pedestrian.walkway = crossing;
+    pedestrian.direction = roll(index, tick, 'direction') < 0.5 ? 1 : -1;
+    pedestrian.heading = headingFor(world.walkways[crossing].axis, pedestrian.direction);
+  }
+}
+
+function turnAround(pedestrian: Pedestrian, axis: Axis) {
+  pedestrian.direction = -pedestrian.direction;
+  pedestrian.heading = headingFor(axis, pedestrian.direction);
+}
+
+function clampToWalkway(walkway: Walkway, axis: Axis, value: number) {
+  const margin = pedestrianSettings.roadEndMargin;
+  return THREE.MathUtils.clamp(value, walkwayMin(walkway, axis) + margin, walkwayMax(walkway, axis) - margin);
+}
+
+// Someone close in front, roughly in the same lane
+function isBlocked(pedestrian: Pedestrian, index: number, pedestrians: Pedestrian[], axis: Axis, lateral: Axis) {
+  return pedestrians.some((other, otherIndex) => {
+    if (otherIndex === index) return false;
+
+    const ahead = (other.position[axis] - pedestrian.position[axis]) * pedestrian.direction;
+    const side = Math.abs(other.position[lateral] - pedestrian.position[lateral]);
+    return ahead > 0 && ahead < pedestrianSettings.personalSpace && side < pedestrianSettings.personalSpace / 2;
+  });
+}
+
+const carArea = new THREE.Box3();
+
+// A step into the road in front of a moving car. A stopped car is waiting
+// for someone, quite possibly this person, so it is safe to walk on.
+function isCarInTheWay(pedestrian: Pedestrian, cars: Car[], world: WorldDescription, offset: THREE.Vector3) {
+  const { bounds } = pedestrian.obstacle;
+  movedBounds.copy(bounds).translate(offset);
+
+  return cars.some(car => {
+    if (car.speed === 0) return false;
+
+    // Already in its way - better to get out of it than freeze
+    const area = drivingArea(car, world, carArea);
+    return area.intersectsBox(movedBounds) && !area.intersectsBox(bounds);
+  });
+}
+
+// A road crossing this one where the pavement on either side of it was
+// reached this tick, so turning keeps the person on a pavement
+function findCrossing(walkways: Walkway[], pedestrian: Pedestrian, axis: Axis, from: number, to: number) {
+  const lateral = otherAxis(axis);
+  const { laneOffset } = pedestrianSettings;
+
+  return walkways.findIndex((walkway, index) => {
+    if (index === pedestrian.walkway || walkway.axis === axis) return false;
+
+    const centre = walkwayCentre(walkway, axis);
+    const passed = [centre - laneOffset, centre + laneOffset].some(line =>
+      (from - line) * (to - line) <= 0 && from !== line
+    );
+    const position = pedestrian.position[lateral];
+    return passed && position >= walkwayMin(walkway, lateral) && position <= walkwayMax(walkway, lateral);
+  });
+}
+
+const moveOffset = new THREE.Vector3();
+const movedBounds = new THREE.Box3();
+
+// Move unless that would walk into a building. Someone who starts the run
+// inside one, on a badly placed road, may still walk out of it.
+function tryMove(pedestrian: Pedestrian, world: WorldDescription, offset: THREE.Vector3): boolean {
+  const { bounds } = pedestrian.obstacle;
+  movedBounds.copy(bounds).translate(offset);
+
+  const nearby = queryGrid(world.broadPhase.buildings, pedestrian.position, pedestrianSettings.personalSpace);
+  const blocked = nearby.some(index =>
+    world.buildings[index].intersectsBox(movedBounds) && !world.buildings[index].intersectsBox(bounds)
+  );
+  if (blocked) return false;
+
+  pedestrian.position.add(offset);
+  pedestrian.obstacle.bounds.copy(movedBounds);
+  return true;
+}
@@ -0,0 +1,26 @@
+import React from 'react';
+import { ActivePowerUp, powerUpIcons, powerUpLabels } from './PowerUps';
+
+interface PowerUpDisplayProps {
+  powerUps: ActivePowerUp[];
+}
+
+const PowerUpDisplay: React.FC<PowerUpDisplayProps> = ({ powerUps }) => {
+  if (powerUps.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 flex gap-2 pointer-events-none">
+      {powerUps.map(({ type, secondsLeft }) => (
+        <div
+          key={type}
+          className={`bg-black/50 text-white text-sm px-3 py-1 rounded-lg font-mono ${secondsLeft <= 3 ? 'animate-pulse' : ''}`}
+          title={powerUpLabels[type]}
+        >
+          {powerUpIcons[type]} {secondsLeft}s
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PowerUpDisplay;
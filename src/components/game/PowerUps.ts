@@ -0,0 +1,181 @@
+import * as THREE from 'three';
+import { TICKS_PER_SECOND } from './FixedTimestep';
+import { SimulationEvent, SimulationState, WorldDescription } from './CitySimulation';
+import { cityDifficulties } from './Difficulty';
+
+// Pickups lying around the city for the ball to roll into. A repair patch
+// works straight away, everything else is a timed effect counted down in
+// simulation ticks, so it wears off at the same moment in every replay of
+// a run. A collected pickup comes back at its spot a while later.
+
+export type PowerUpType = 'repair' | 'speedBoost' | 'superBounce' | 'magnet' | 'nailImmunity';
+
+export type TimedPowerUpType = Exclude<PowerUpType, 'repair'>;
+
+export const powerUpSettings = {
+  pickupRadius: 0.6,
+  respawnTicks: 30 * TICKS_PER_SECOND,
+  durations: {
+    speedBoost: 8 * TICKS_PER_SECOND,
+    superBounce: 10 * TICKS_PER_SECOND,
+    magnet: 12 * TICKS_PER_SECOND,
+    nailImmunity: 8 * TICKS_PER_SECOND,
+  } as Record<TimedPowerUpType, number>,
+  speedMultiplier: 1.6, // on acceleration and top speed
+  bounceMultiplier: 1.5, // on the jump force
+  magnetRadius: 12,
+  magnetSpeed: 0.3, // coins fly at the ball this fast, faster than it can roll
+};
+
+export const powerUpTypes: PowerUpType[] = ['repair', 'speedBoost', 'superBounce', 'magnet', 'nailImmunity'];
+
+export const timedPowerUpTypes = Object.keys(powerUpSettings.durations) as TimedPowerUpType[];
+
+export const powerUpLabels: Record<PowerUpType, string> = {
+  repair: 'Repair Patch',
+  speedBoost: 'Speed Boost',
+  superBounce: 'Super Bounce',
+  magnet: 'Coin Magnet',
+  nailImmunity: 'Nail Immunity',
+};
+
+export const powerUpDescriptions: Record<PowerUpType, string> = {
+  repair: 'Good as new - the ball is pumped back up',
+  speedBoost: 'Roll faster for a while',
+  superBounce: 'Bounce higher for a while',
+  magnet: 'Nearby coins fly to you',
+  nailImmunity: 'Nails can\'t pop you for a while',
+};
+
+export const powerUpIcons: Record<PowerUpType, string> = {
+  repair: '🩹',
+  speedBoost: '⚡',
+  superBounce: '🚀',
+  magnet: '🧲',
+  nailImmunity: '🛡️',
+};
+
+// For the pickups in the scene
+export const powerUpColors: Record<PowerUpType, number> = {
+  repair: 0xEEEEEE,
+  speedBoost: 0xFFEE00,
+  superBounce: 0xFF44AA,
+  magnet: 0xDD2222,
+  nailImmunity: 0x33CCFF,
+};
+
+// Where a pickup lies when the run starts
+export interface PowerUpSpawn {
+  type: PowerUpType;
+  position: THREE.Vector3;
+}
+
+export interface Pickup {
+  type: PowerUpType;
+  position: THREE.Vector3;
+  respawnTick: number | null; // when a collected pickup comes back, null while it's there
+}
+
+// Tick each timed effect wears off at, 0 for one that was never picked up
+export type PowerUpEffects = Record<TimedPowerUpType, number>;
+
+export function createPickups(world: WorldDescription): Pickup[] {
+  return world.powerUps.map(spawn => ({ type: spawn.type, position: spawn.position.clone(), respawnTick: null }));
+}
+
+export function createPowerUpEffects(): PowerUpEffects {
+  return { speedBoost: 0, superBounce: 0, magnet: 0, nailImmunity: 0 };
+}
+
+export const isPowerUpActive = (state: SimulationState, type: TimedPowerUpType) => state.effects[type] > state.tick;
+
+// Ticks left on an effect, 0 once it has worn off
+export const powerUpTicksLeft = (state: SimulationState, type: TimedPowerUpType) =>
+  Math.max(state.effects[type] - state.tick, 0);
+
+// Set the ball up for this tick's effects, before it moves, on top of
+// what the difficulty gives it
+export function applyPowerUpEffects(state: SimulationState, world: WorldDescription) {
+  const { ball } = state;
+  const { speedMultiplier, bounceMultiplier } = powerUpSettings;
+  const physics = cityDifficulties[world.difficulty];
+
+  ball.speedMultiplier = physics.speedScale * (isPowerUpActive(state, 'speedBoost') ? speedMultiplier : 1);
+  ball.jumpForce = physics.jumpForce * (isPowerUpActive(state, 'superBounce') ? bounceMultiplier : 1);
+}
+
+// Pick up what the ball touched, bring back what's due, wear off what's
+// expired and pull coins in while the magnet lasts
+export function stepPowerUps(state: SimulationState, events: SimulationEvent[]) {
+  const { ball, tick } = state;
+  const reach = ball.radius + powerUpSettings.pickupRadius;
+
+  for (const pickup of state.pickups) {
+    if (pickup.respawnTick !== null) {
+      if (tick >= pickup.respawnTick) pickup.respawnTick = null;
+      continue;
+    }
+
+    // A whole ball leaves the patch for later
+    if (pickup.type === 'repair' && !ball.deflated) continue;
+    if (pickup.position.distanceTo(ball.position) >= reach) continue;
+
+    pickup.respawnTick = tick + powerUpSettings.respawnTicks;
+    if (pickup.type === 'repair') {
+      repairBall(state);
+    } else {
+      state.effects[pickup.type] = tick + powerUpSettings.durations[pickup.type];
+    }
+    events.push({ type: 'powerUpCollected', powerUp: pickup.type });
+  }
+
+  for (const type of timedPowerUpTypes) {
+    // Never picked up is 0, which is never a tick an effect ends on
+    if (state.effects[type] === tick && tick > 0) {
+      events.push({ type: 'powerUpExpired', powerUp: type });
+    }
+  }
+
+  if (isPowerUpActive(state, 'magnet')) {
+    pullCoins(state);
+  }
+}
+
+function repairBall(state: SimulationState) {
+  const { ball } = state;
+
+  // Grows back from the ground up
+  ball.position.y += ball.normalRadius - ball.radius;
+  ball.radius = ball.normalRadius;
+  ball.deflated = false;
+}
+
+const pull = new THREE.Vector3();
+
+function pullCoins(state: SimulationState) {
+  const { ball } = state;
+  const { magnetRadius, magnetSpeed } = powerUpSettings;
+
+  for (const coin of state.coins) {
+    if (coin.collected) continue;
+
+    pull.subVectors(ball.position, coin.position);
+    const distance = pull.length();
+    if (distance < magnetRadius && distance > 0) {
+      coin.position.addScaledVector(pull, Math.min(magnetSpeed, distance) / distance);
+    }
+  }
+}
+
+export interface ActivePowerUp {
+  type: TimedPowerUpType;
+  secondsLeft: number; // rounded up, for the HUD
+}
+
+// Effects still running, soonest to wear off first
+export function listActivePowerUps(state: SimulationState): ActivePowerUp[] {
+  return timedPowerUpTypes
+    .filter(type => isPowerUpActive(state, type))
+    .map(type => ({ type, secondsLeft: Math.ceil(powerUpTicksLeft(state, type) / TICKS_PER_SECOND) }))
+    .sort((a, b) => a.secondsLeft - b.secondsLeft);
+}
@@ -0,0 +1,65 @@
+import * as THREE from 'three';
+
+// Frame rate and renderer counters for the debug overlay. Draw calls and
+// triangles come from the last render() call, shadow passes included; the
+// memory counts are what the renderer currently holds on the GPU.
+
+export interface RenderStats {
+  fps: number;
+  drawCalls: number;
+  triangles: number;
+  geometries: number;
+  textures: number;
+  programs: number;
+  heapMegabytes: number | null; // Chrome only
+}
+
+// Non-standard, only some browsers report the JS heap
+type PerformanceWithMemory = Performance & { memory?: { usedJSHeapSize: number } };
+
+export interface RenderStatsSampler {
+  frames: number;
+  since: number | null;
+}
+
+// How often the overlay refreshes, in ms
+const SAMPLE_INTERVAL = 500;
+
+export function createRenderStatsSampler(): RenderStatsSampler {
+  return { frames: 0, since: null };
+}
+
+// Count a drawn frame; returns fresh stats every SAMPLE_INTERVAL, otherwise null
+export function sampleRenderStats(
+  sampler: RenderStatsSampler,
+  renderer: THREE.WebGLRenderer,
+  now: number
+): RenderStats | null {
+  if (sampler.since === null) {
+    sampler.since = now;
+    return null;
+  }
+
+  sampler.frames++;
+  const elapsed = now - sampler.since;
+  if (elapsed < SAMPLE_INTERVAL) return null;
+
+  const stats = {
+    fps: Math.round((sampler.frames * 1000) / elapsed),
+    drawCalls: renderer.info.render.calls,
+    triangles: renderer.info.render.triangles,
+    geometries: renderer.info.memory.geometries,
+    textures: renderer.info.memory.textures,
+    programs: renderer.info.programs?.length ?? 0,
+    heapMegabytes: readHeapMegabytes()
+  };
+
+  sampler.frames = 0;
+  sampler.since = now;
+  return stats;
+}
+
+function readHeapMegabytes(): number | null {
+  const { memory } = performance as PerformanceWithMemory;
+  return memory ? Math.round(memory.usedJSHeapSize / (1024 * 1024)) : null;
+}
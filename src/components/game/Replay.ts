@@ -0,0 +1,280 @@
+import {
+  SimulationCommand,
+  SimulationEvent,
+  SimulationState,
+  WorldDescription,
+  cloneSimulationState,
+  createSimulationState,
+  stepSimulation
+} from './CitySimulation';
+import { createWorldDescription } from './CityGenerator';
+import {
+  ANALOG_STEPS,
+  ActionState,
+  InputAction,
+  MoveAxis,
+  actionDownCommands,
+  actionUpCommands,
+  analogCommands,
+  createActionState,
+  simulationActions
+} from './InputActions';
+import { MapSource, createLayoutForSource } from './MapSource';
+import { getLevel } from './Levels';
+import { Difficulty, difficulties } from './Difficulty';
+import { TICKS_PER_SECOND } from './FixedTimestep';
+
+// Recorded runs. A replay is the map source and difficulty plus every input
+// action pressed or released and every stick movement, with the simulation
+// tick it was applied on - re-running them through the headless simulation
+// reproduces the run exactly, whatever the player had bound.
+
+export type ReplayInputEvent =
+  | { tick: number; type: 'down' | 'up'; action: InputAction }
+  | { tick: number; type: 'axis'; axis: MoveAxis; value: number }; // quantized, see quantizeAxis
+
+export interface Replay {
+  source: MapSource;
+  difficulty: Difficulty;
+  ticks: number; // length of the run
+  events: ReplayInputEvent[];
+}
+
+// Bumped whenever the simulation changes how a run plays out, older codes
+// would no longer reproduce their runs. OBR2: pedestrians walk. OBR3: cars
+// drive. OBR4: the ball rolls and bounces. OBR5: surfaces. OBR6: rooftop
+// routes, coins and long falls. OBR7: power-ups. OBR8: difficulty. OBR9:
+// actions instead of keys, and both move axes held at once.
+const REPLAY_VERSION = 'OBR9';
+
+export function createReplay(source: MapSource, difficulty: Difficulty): Replay {
+  return { source, difficulty, ticks: 0, events: [] };
+}
+
+export function recordActionEvent(replay: Replay, tick: number, type: 'down' | 'up', action: InputAction) {
+  if (!simulationActions.includes(action)) return;
+  replay.events.push({ tick, type, action });
+}
+
+export function recordAxisEvent(replay: Replay, tick: number, axis: MoveAxis, value: number) {
+  replay.events.push({ tick, type: 'axis', axis, value });
+}
+
+// Custom maps live only in the editor, so a code couldn't rebuild them
+export function isReplayableSource(source: MapSource): boolean {
+  return source.mode !== 'custom';
+}
+
+// Compact text form for bug reports and URLs:
+// OBR9|<source>|<seed>|<difficulty>|<ticks>|<event>,...
+// where source is c (classic), d<day> or l<level id>, levels use seed 0,
+// difficulty is its first letter and each event is
+// <tick delta base36><+ or -><action index> or <tick delta base36>@<x or z><stick steps>
+export function encodeReplay(replay: Replay): string {
+  const { source } = replay;
+  if (!isReplayableSource(source)) {
+    throw new Error('Replays of custom maps cannot be encoded');
+  }
+
+  const sourceText = source.mode === 'daily' ? `d${source.day}` : source.mode === 'level' ? `l${source.levelId}` : 'c';
+  const seed = source.mode === 'classic' || source.mode === 'daily' ? source.seed : 0;
+
+  let lastTick = 0;
+  const events = replay.events.map(event => {
+    const delta = (event.tick - lastTick).toString(36);
+    lastTick = event.tick;
+    return event.type === 'axis'
+      ? `${delta}@${event.axis}${Math.round(event.value * ANALOG_STEPS)}`
+      : `${delta}${event.type === 'down' ? '+' : '-'}${simulationActions.indexOf(event.action)}`;
+  });
+
+  return [REPLAY_VERSION, sourceText, seed, replay.difficulty[0], replay.ticks.toString(36), events.join(',')].join('|');
+}
+
+export function decodeReplay(text: string): Replay | null {
+  const parts = text.trim().split('|');
+  if (parts.length !== 6 || parts[0] !== REPLAY_VERSION) return null;
+
+  const [, sourceText, seedText, difficultyText, ticksText, eventsText] = parts;
+  const seed = Number(seedText);
+  const ticks = parseInt(ticksText, 36);
+  const difficulty = difficulties.find(level => level[0] === difficultyText);
+  if (!Number.isInteger(seed) || !Number.isInteger(ticks) || !difficulty) return null;
+
+  let source: MapSource;
+  if (sourceText === 'c') {
+    source = { mode: 'classic', seed };
+  } else if (/^d\d{4}-\d{2}-\d{2}$/.test(sourceText)) {
+    source = { mode: 'daily', seed, day: sourceText.slice(1) };
+  } else if (sourceText.startsWith('l') && getLevel(sourceText.slice(1))) {
+    source = { mode: 'level', levelId: sourceText.slice(1) };
+  } else {
+    return null;
+  }
+
+  const events: ReplayInputEvent[] = [];
+  let tick = 0;
+  for (const entry of eventsText ? eventsText.split(',') : []) {
+    const axisMatch = /^([0-9a-z]+)@([xz])(-?\d+)$/.exec(entry);
+    if (axisMatch) {
+      tick += parseInt(axisMatch[1], 36);
+      const value = Number(axisMatch[3]) / ANALOG_STEPS;
+      if (Math.abs(value) > 1) return null;
+      events.push({ tick, type: 'axis', axis: axisMatch[2] as MoveAxis, value });
+      continue;
+    }
+
+    const match = /^([0-9a-z]+)([+-])(\d+)$/.exec(entry);
+    const action = match ? simulationActions[Number(match[3])] : undefined;
+    if (!match || action === undefined) return null;
+
+    tick += parseInt(match[1], 36);
+    events.push({ tick, type: match[2] === '+' ? 'down' : 'up', action });
+  }
+
+  return { source, difficulty, ticks, events };
+}
+
+// Headless playback state for a replay
+export interface ReplaySession {
+  replay: Replay;
+  world: WorldDescription;
+  sim: SimulationState;
+  actions: ActionState;
+  nextEvent: number;
+}
+
+export function createReplaySession(replay: Replay, world?: WorldDescription): ReplaySession {
+  const sessionWorld = world ??
+    createWorldDescription(createLayoutForSource(replay.source, replay.difficulty), replay.difficulty);
+
+  return {
+    replay,
+    world: sessionWorld,
+    sim: createSimulationState(sessionWorld),
+    actions: createActionState(),
+    nextEvent: 0
+  };
+}
+
+function cloneReplaySession(session: ReplaySession): ReplaySession {
+  const { held, analog } = session.actions;
+
+  return {
+    ...session,
+    sim: cloneSimulationState(session.sim),
+    actions: { held: new Set(held), analog: { ...analog } }
+  };
+}
+
+function replayEventCommands(actions: ActionState, event: ReplayInputEvent): SimulationCommand[] {
+  switch (event.type) {
+    case 'down':
+      return actionDownCommands(actions, event.action);
+    case 'up':
+      return actionUpCommands(actions, event.action);
+    case 'axis':
+      return analogCommands(actions, event.axis, event.value);
+  }
+}
+
+// Step the session forward until it reaches the given tick (or the end of the run)
+export function advanceReplay(session: ReplaySession, toTick: number): SimulationEvent[] {
+  const { replay, sim } = session;
+  const events: SimulationEvent[] = [];
+  const targetTick = Math.min(toTick, replay.ticks);
+
+  while (sim.tick < targetTick) {
+    const commands: SimulationCommand[] = [];
+    while (session.nextEvent < replay.events.length &&
+           replay.events[session.nextEvent].tick <= sim.tick) {
+      commands.push(...replayEventCommands(session.actions, replay.events[session.nextEvent++]));
+    }
+
+    events.push(...stepSimulation(sim, session.world, commands));
+  }
+
+  return events;
+}
+
+// Seeking anywhere in a replay. The simulation only runs forwards, so a
+// copy of the session is kept every few seconds of the run to go back to,
+// instead of starting over from the first tick.
+const SNAPSHOT_TICKS = 5 * TICKS_PER_SECOND;
+
+export interface ReplaySeeker {
+  session: ReplaySession; // the current one, at or before where it was last sought
+  snapshots: ReplaySession[]; // untouched copies, the nth at tick n * SNAPSHOT_TICKS
+}
+
+export function createReplaySeeker(replay: Replay, world?: WorldDescription): ReplaySeeker {
+  const session = createReplaySession(replay, world);
+  return { session, snapshots: [cloneReplaySession(session)] };
+}
+
+export function seekReplay(seeker: ReplaySeeker, toTick: number): ReplaySession {
+  const targetTick = Math.max(0, Math.min(toTick, seeker.session.replay.ticks));
+
+  if (targetTick < seeker.session.sim.tick) {
+    const nearest = Math.min(Math.floor(targetTick / SNAPSHOT_TICKS), seeker.snapshots.length - 1);
+    seeker.session = cloneReplaySession(seeker.snapshots[nearest]);
+  }
+
+  // Forwards a snapshot at a time, keeping any not taken yet
+  const { session, snapshots } = seeker;
+  while (session.sim.tick < targetTick) {
+    const nextSnapshot = (Math.floor(session.sim.tick / SNAPSHOT_TICKS) + 1) * SNAPSHOT_TICKS;
+    advanceReplay(session, Math.min(nextSnapshot, targetTick));
+
+    if (session.sim.tick === nextSnapshot && snapshots.length === nextSnapshot / SNAPSHOT_TICKS) {
+      snapshots.push(cloneReplaySession(session));
+    }
+  }
+
+  return session;
+}
+
+export interface ReplayResult {
+  score: number;
+  mazeCompleted: boolean;
+  courtTick: number | null; // tick the court was reached on
+}
+
+// A re-simulation in progress, run a slice at a time so a long run doesn't
+// hold up the page
+export interface ReplayVerification {
+  session: ReplaySession;
+  courtTick: number | null; // tick the court was reached on, once it has been
+}
+
+export function startReplayVerification(replay: Replay): ReplayVerification {
+  return { session: createReplaySession(replay), courtTick: null };
+}
+
+// Re-simulate up to maxTicks more of the run, the result once it's all been checked
+export function continueReplayVerification(verification: ReplayVerification, maxTicks: number): ReplayResult | null {
+  const { session } = verification;
+  const { replay, sim } = session;
+  const endTick = Math.min(sim.tick + maxTicks, replay.ticks);
+
+  while (sim.tick < endTick) {
+    const events = advanceReplay(session, sim.tick + 1);
+    if (events.some(event => event.type === 'courtReached')) {
+      verification.courtTick = sim.tick;
+    }
+  }
+
+  if (sim.tick < replay.ticks) return null;
+  return { score: sim.score.total, mazeCompleted: sim.mazeCompleted, courtTick: verification.courtTick };
+}
+
+// Re-simulate a whole run to check the result it claims, all at once
+export function verifyReplay(replay: Replay): ReplayResult {
+  const verification = startReplayVerification(replay);
+  let result: ReplayResult | null = null;
+
+  while (!result) {
+    result = continueReplayVerification(verification, replay.ticks);
+  }
+  return result;
+}
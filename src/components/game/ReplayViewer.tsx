@@ -0,0 +1,244 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { addCars, buildCityScene, createBallMesh, poseCar, poseCoin, posePerson, posePickup } from './CityScene';
+import { createWorldDescription } from './CityGenerator';
+import { FIXED_TIMESTEP, TICKS_PER_SECOND } from './FixedTimestep';
+import { createLayoutForSource, describeMapSource } from './MapSource';
+import { Replay, ReplaySeeker, createReplaySeeker, seekReplay } from './Replay';
+import { limbSwing } from './Pedestrians';
+import { difficultyLabels } from './Difficulty';
+import { createResourceTracker, disposeTrackedResources, releaseObject, trackObject } from './ResourceTracker';
+import { createCameraRig, updateCameraRig } from './CityCamera';
+
+interface ReplayViewerProps {
+  replay: Replay;
+}
+
+const playbackSpeeds = [0.5, 1, 2];
+
+interface PlaybackState {
+  seeker: ReplaySeeker | null;
+  playhead: number; // in ticks, fractional between two ticks
+  playing: boolean;
+  speed: number;
+  lastTime: number | null;
+}
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay }) => {
+  const mountRef = useRef<HTMLDivElement>(null);
+  const playbackRef = useRef<PlaybackState>({
+    seeker: null,
+    playhead: 0,
+    playing: true,
+    speed: 1,
+    lastTime: null
+  });
+
+  const [tick, setTick] = useState(0);
+  const [score, setScore] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    const mount = mountRef.current;
+    if (!mount) return;
+
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(0x87CEEB); // Sky blue
+    scene.add(new THREE.AmbientLight(0x404040));
+
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 1);
+    directionalLight.position.set(5, 10, 7.5);
+    scene.add(directionalLight);
+
+    const camera = new THREE.PerspectiveCamera(75, mount.clientWidth / mount.clientHeight, 0.1, 1000);
+
+    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    renderer.setSize(mount.clientWidth, mount.clientHeight);
+    renderer.shadowMap.enabled = true;
+    mount.appendChild(renderer.domElement);
+
+    // Same city, same world - the run replays exactly as it was played
+    const layout = createLayoutForSource(replay.source, replay.difficulty);
+    const { people, coins, pickups } = buildCityScene(scene, layout);
+    const world = createWorldDescription(layout, replay.difficulty);
+
+    const playback = playbackRef.current;
+    playback.seeker = createReplaySeeker(replay, world);
+    playback.playhead = 0;
+    playback.lastTime = null;
+
+    const cars = addCars(scene, playback.seeker.session.sim.traffic.cars.length);
+
+    let ballMesh = createBallMesh(0.5, false);
+    let meshDeflated = false;
+    scene.add(ballMesh);
+
+    const resources = createResourceTracker();
+    trackObject(resources, scene);
+
+    const previousPosition = new THREE.Vector3();
+    const previousOrientation = new THREE.Quaternion();
+    const ballPosition = new THREE.Vector3();
+    const cameraRig = createCameraRig('chase');
+    let animationId = 0;
+
+    const loop = (time: number) => {
+      const frameTime = playback.lastTime === null ? 0 : time - playback.lastTime;
+      playback.lastTime = time;
+
+      if (playback.playing) {
+        playback.playhead = Math.min(playback.playhead + (frameTime / FIXED_TIMESTEP) * playback.speed, replay.ticks);
+      }
+
+      // Seeking back starts from the nearest snapshot, so the camera jumps there too
+      const seeker = playback.seeker!;
+      const targetTick = Math.floor(playback.playhead);
+      const seekingBack = targetTick < seeker.session.sim.tick;
+      if (seekingBack) {
+        cameraRig.snap = true;
+      }
+
+      // Keep the tick before the target too, to draw between the two - while
+      // paused it's already at the target, and stays there
+      const tickBefore = seekingBack ? targetTick - 1 : Math.max(targetTick - 1, seeker.session.sim.tick);
+      const ballBefore = seekReplay(seeker, tickBefore).sim.ball;
+      previousPosition.copy(ballBefore.position);
+      previousOrientation.copy(ballBefore.orientation);
+      const session = seekReplay(seeker, targetTick);
+
+      const { ball } = session.sim;
+      if (ball.deflated !== meshDeflated) {
+        releaseObject(resources, ballMesh);
+        ballMesh = trackObject(resources, createBallMesh(ball.radius, ball.deflated));
+        meshDeflated = ball.deflated;
+        scene.add(ballMesh);
+      }
+
+      const alpha = targetTick < replay.ticks ? playback.playhead - targetTick : 0;
+      ballPosition.lerpVectors(previousPosition, ball.position, alpha);
+      ballMesh.position.copy(ballPosition);
+      if (!ball.deflated) {
+        ballMesh.quaternion.slerpQuaternions(previousOrientation, ball.orientation, alpha);
+      }
+
+      session.sim.pedestrians.forEach((pedestrian, index) => {
+        posePerson(people, index, pedestrian.position, pedestrian.heading, limbSwing(pedestrian));
+      });
+      session.sim.traffic.cars.forEach((car, index) => {
+        poseCar(cars, index, car.position, car.heading);
+      });
+      session.sim.coins.forEach((coin, index) => {
+        poseCoin(coins, index, coin.position, coin.collected);
+      });
+      session.sim.pickups.forEach((pickup, index) => {
+        posePickup(pickups, index, pickup.position, pickup.respawnTick === null);
+      });
+
+      // Same chase camera as the game
+      updateCameraRig(cameraRig, camera, ballPosition, ball.velocity, world, time);
+
+      renderer.render(scene, camera);
+
+      setTick(session.sim.tick);
+      setScore(session.sim.score.total);
+      if (playback.playing && playback.playhead >= replay.ticks) {
+        playback.playing = false;
+        setPlaying(false);
+      }
+
+      animationId = requestAnimationFrame(loop);
+    };
+    animationId = requestAnimationFrame(loop);
+
+    const handleResize = () => {
+      camera.aspect = mount.clientWidth / mount.clientHeight;
+      camera.updateProjectionMatrix();
+      renderer.setSize(mount.clientWidth, mount.clientHeight);
+    };
+
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      cancelAnimationFrame(animationId);
+      mount.removeChild(renderer.domElement);
+      disposeTrackedResources(resources);
+      renderer.dispose();
+    };
+  }, [replay]);
+
+  const togglePlaying = () => {
+    const playback = playbackRef.current;
+
+    // Playing from the end starts again from the top
+    if (!playback.playing && playback.playhead >= replay.ticks) {
+      playback.playhead = 0;
+    }
+
+    playback.playing = !playback.playing;
+    setPlaying(playback.playing);
+  };
+
+  const changeSpeed = (nextSpeed: number) => {
+    playbackRef.current.speed = nextSpeed;
+    setSpeed(nextSpeed);
+  };
+
+  const seek = (value: number[]) => {
+    playbackRef.current.playhead = value[0];
+  };
+
+  const formatTime = (ticks: number) => (ticks / TICKS_PER_SECOND).toFixed(1);
+
+  return (
+    <div className="relative h-full w-full">
+      <div ref={mountRef} className="h-full w-full" />
+
+      <div className="absolute top-2 right-5 text-right z-10">
+        <div className="text-xl font-bold text-white mb-2 bg-black/30 p-2 rounded-lg">Score: {score}</div>
+        <div className="text-sm text-white bg-black/30 p-2 rounded-lg">
+          {describeMapSource(replay.source)} · {difficultyLabels[replay.difficulty]}
+        </div>
+      </div>
+
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[90%] max-w-2xl bg-white/90 p-4 rounded-lg shadow-lg z-10">
+        <Slider
+          min={0}
+          max={replay.ticks}
+          step={1}
+          value={[tick]}
+          onValueChange={seek}
+        />
+        <div className="mt-3 flex items-center justify-between gap-2">
+          <Button
+            onClick={togglePlaying}
+            className="bg-[#FF7700] hover:bg-[#FF9933] text-white"
+          >
+            {playing ? 'Pause' : 'Play'}
+          </Button>
+          <div className="flex gap-1">
+            {playbackSpeeds.map(option => (
+              <Button
+                key={option}
+                variant={option === speed ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => changeSpeed(option)}
+              >
+                {option}x
+              </Button>
+            ))}
+          </div>
+          <span className="text-sm font-mono text-gray-700">
+            {formatTime(tick)}s / {formatTime(replay.ticks)}s · tick {tick}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,69 @@
+import * as THREE from 'three';
+
+// Keeps hold of every GPU resource a game session creates - geometries,
+// materials, textures and instance buffers - so ending the session can free
+// them all at once instead of leaving them to pile up on the renderer.
+
+type GpuResource = THREE.BufferGeometry | THREE.Material | THREE.Texture | THREE.InstancedMesh;
+
+export interface ResourceTracker {
+  resources: Set<GpuResource>;
+}
+
+export function createResourceTracker(): ResourceTracker {
+  return { resources: new Set() };
+}
+
+// Track everything an object and its children draw with, and return the object
+export function trackObject<T extends THREE.Object3D>(tracker: ResourceTracker, object: T): T {
+  for (const resource of collectResources(object)) {
+    tracker.resources.add(resource);
+  }
+  return object;
+}
+
+// Take an object out of the scene and free what it used straight away,
+// e.g. when the ball mesh is swapped mid-session
+export function releaseObject(tracker: ResourceTracker, object: THREE.Object3D) {
+  object.removeFromParent();
+
+  for (const resource of collectResources(object)) {
+    tracker.resources.delete(resource);
+    resource.dispose();
+  }
+}
+
+export function disposeTrackedResources(tracker: ResourceTracker) {
+  for (const resource of tracker.resources) {
+    resource.dispose();
+  }
+  tracker.resources.clear();
+}
+
+function collectResources(object: THREE.Object3D): Set<GpuResource> {
+  const resources = new Set<GpuResource>();
+
+  object.traverse(child => {
+    if (child instanceof THREE.InstancedMesh) {
+      resources.add(child);
+    }
+
+    if (child instanceof THREE.Mesh) {
+      resources.add(child.geometry);
+
+      const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      for (const material of materials) {
+        resources.add(material);
+
+        // Maps hang off the material under different names per material type
+        for (const value of Object.values(material)) {
+          if (value instanceof THREE.Texture) {
+            resources.add(value);
+          }
+        }
+      }
+    }
+  });
+
+  return resources;
+}
@@ -0,0 +1,157 @@
+import * as THREE from 'three';
+import { BuildingLayout, Point3 } from './CityGenerator';
+
+// The rooftop layer: a ramp up from the street onto an awning, and a fire
+// escape zig-zagging up the wall from there to the roof, one bounce per
+// landing. Coins only sit up high, on the roofs and landings, so the route
+// and the triple power bounce are the way to them. Falling further than
+// simulationSettings.safeFallHeight flattens the ball on landing.
+
+export const rooftopSettings = {
+  awningHeight: 3, // top of the awning, where the ramp ends
+  awningDepth: 2,
+  landingDepth: 2,
+  landingSpacing: 2.4, // height between landings, a little under one bounce
+  platformThickness: 0.3,
+  rampLength: 8,
+  rampWidth: 3,
+  coinRadius: 0.5,
+  coinHeight: 1, // centre, above whatever the coin sits on
+  minCoinHeight: 5, // nothing lower than this is up high
+};
+
+type Axis = 'x' | 'z';
+
+// The wall of a building a fire escape climbs, as its outward direction
+export interface FireEscape {
+  axis: Axis;
+  direction: number; // 1 or -1 along the axis
+}
+
+// Something flat to land on, sticking out of a wall
+export interface PlatformLayout {
+  kind: 'awning' | 'landing';
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+  height: number; // of its top
+}
+
+// A wedge up from the street, rising along the axis in the given direction
+export interface RampLayout {
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+  height: number; // at its top end
+  axis: Axis;
+  direction: number;
+}
+
+export interface ClimbingRoute {
+  ramp: RampLayout;
+  platforms: PlatformLayout[]; // the awning, then the landings from the bottom up
+}
+
+// A ramp as the simulation sees it. The top end is at bounds.max.y.
+export interface WorldRamp {
+  bounds: THREE.Box3;
+  axis: Axis;
+  direction: number;
+}
+
+export interface Coin {
+  position: THREE.Vector3;
+  collected: boolean;
+}
+
+const otherAxis = (axis: Axis): Axis => axis === 'x' ? 'z' : 'x';
+
+const sizeAlong = (building: BuildingLayout, axis: Axis) => axis === 'x' ? building.width : building.depth;
+
+// A box centred on the given point along the wall's axis and across it
+function wallBox(axis: Axis, along: number, across: number, alongSize: number, acrossSize: number) {
+  return axis === 'x'
+    ? { x: along, z: across, width: alongSize, depth: acrossSize }
+    : { x: across, z: along, width: acrossSize, depth: alongSize };
+}
+
+// Everything on the building's fire escape side, worked out from its size
+// alone so the scene and the simulation always agree
+export function climbingRoute(building: BuildingLayout, fireEscape: FireEscape): ClimbingRoute {
+  const { awningHeight, awningDepth, landingDepth, landingSpacing, rampLength, rampWidth } = rooftopSettings;
+  const { axis, direction } = fireEscape;
+  const lateral = otherAxis(axis);
+  const wall = building[axis] + direction * sizeAlong(building, axis) / 2;
+  const centre = building[lateral];
+  const wallLength = sizeAlong(building, lateral);
+
+  // Rising towards the wall, up to the edge of the awning
+  const ramp: RampLayout = {
+    ...wallBox(axis, wall + direction * (awningDepth + rampLength / 2), centre, rampLength, rampWidth),
+    height: awningHeight,
+    axis,
+    direction: -direction
+  };
+
+  const platforms: PlatformLayout[] = [{
+    kind: 'awning',
+    ...wallBox(axis, wall + direction * awningDepth / 2, centre, awningDepth, wallLength),
+    height: awningHeight
+  }];
+
+  // Landings alternate between the two halves of the wall, so the one
+  // above is never in the way of the bounce up to it
+  let side = 1;
+  for (let height = awningHeight + landingSpacing; height < building.height - 0.5; height += landingSpacing) {
+    platforms.push({
+      kind: 'landing',
+      ...wallBox(axis, wall + direction * landingDepth / 2, centre + side * wallLength / 4, landingDepth, wallLength / 2),
+      height
+    });
+    side = -side;
+  }
+
+  return { ramp, platforms };
+}
+
+export const platformBounds = (platform: PlatformLayout) => new THREE.Box3(
+  new THREE.Vector3(platform.x - platform.width / 2, platform.height - rooftopSettings.platformThickness, platform.z - platform.depth / 2),
+  new THREE.Vector3(platform.x + platform.width / 2, platform.height, platform.z + platform.depth / 2)
+);
+
+export const rampToWorld = (ramp: RampLayout): WorldRamp => ({
+  bounds: new THREE.Box3(
+    new THREE.Vector3(ramp.x - ramp.width / 2, 0, ramp.z - ramp.depth / 2),
+    new THREE.Vector3(ramp.x + ramp.width / 2, ramp.height, ramp.z + ramp.depth / 2)
+  ),
+  axis: ramp.axis,
+  direction: ramp.direction
+});
+
+// Height of the slope above a point inside the ramp's footprint
+export function rampHeightAt(ramp: WorldRamp, position: THREE.Vector3): number {
+  const { bounds, axis, direction } = ramp;
+  const along = (position[axis] - bounds.min[axis]) / (bounds.max[axis] - bounds.min[axis]);
+  const rise = THREE.MathUtils.clamp(direction > 0 ? along : 1 - along, 0, 1);
+  return rise * bounds.max.y;
+}
+
+// Outward normal of the slope
+export function rampNormal(ramp: WorldRamp, target: THREE.Vector3): THREE.Vector3 {
+  const { bounds, axis, direction } = ramp;
+  const slope = bounds.max.y / (bounds.max[axis] - bounds.min[axis]);
+  target.set(0, 1, 0);
+  target[axis] = -direction * slope;
+  return target.normalize();
+}
+
+// Over the ramp's footprint or within the given distance of it
+export const isNearRamp = (ramp: WorldRamp, position: THREE.Vector3, distance: number) =>
+  position.x > ramp.bounds.min.x - distance && position.x < ramp.bounds.max.x + distance &&
+  position.z > ramp.bounds.min.z - distance && position.z < ramp.bounds.max.z + distance;
+
+export function createCoins(points: Point3[]): Coin[] {
+  return points.map(point => ({ position: new THREE.Vector3(point.x, point.y, point.z), collected: false }));
+}
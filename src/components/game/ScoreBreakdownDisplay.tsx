@@ -0,0 +1,30 @@
+
+import React from 'react';
+import { ScoreBreakdown, ScoreCategory, scoreCategoryLabels } from './ScoreSystem';
+
+interface ScoreBreakdownDisplayProps {
+  breakdown: ScoreBreakdown;
+}
+
+const ScoreBreakdownDisplay: React.FC<ScoreBreakdownDisplayProps> = ({ breakdown }) => {
+  const categories = Object.keys(scoreCategoryLabels) as ScoreCategory[];
+  
+  return (
+    <div className="mt-4 text-left">
+      <h3 className="font-bold mb-2 text-gray-700">Score Breakdown</h3>
+      <div className="rounded border p-2 bg-white/90">
+        {categories.map(category => (
+          <div 
+            key={category} 
+            className="py-1 border-b border-dotted border-gray-300 flex justify-between gap-4"
+          >
+            <span className="text-gray-700">{scoreCategoryLabels[category]}</span>
+            <span className="font-bold">{Math.floor(breakdown[category])}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScoreBreakdownDisplay;
@@ -0,0 +1,79 @@
+import { SimulationEvent } from './CitySimulation';
+import { TICKS_PER_SECOND } from './FixedTimestep';
+import { Difficulty, cityDifficulties } from './Difficulty';
+
+// Scoring for the 3D game. Points only come from things that happened in
+// the simulation, so holding a key against a wall earns nothing and a
+// replay always scores the same.
+
+export type ScoreCategory = 'distance' | 'powerBounces' | 'nearMisses' | 'coins' | 'court' | 'timeBonus';
+
+export type ScoreBreakdown = Record<ScoreCategory, number>;
+
+export interface ScoreState {
+  breakdown: ScoreBreakdown;
+  total: number; // whole points, what the HUD and leaderboards show
+}
+
+export const scoreSettings = {
+  pointsPerUnit: 1, // per unit of ground actually covered
+  powerBouncePoints: [0, 0, 5, 15], // by bounce level, so chains pay more
+  nearMissPoints: 10, // once per nail
+  coinPoints: 20,
+  courtBonus: 50, // less for a deflated ball, by difficulty
+  timeLimit: 120 * TICKS_PER_SECOND, // ticks, the clock the time bonus counts down
+  pointsPerSecondLeft: 1,
+};
+
+export const scoreCategoryLabels: Record<ScoreCategory, string> = {
+  distance: 'Distance travelled',
+  powerBounces: 'Power bounces',
+  nearMisses: 'Nail near-misses',
+  coins: 'Rooftop coins',
+  court: 'Court reached',
+  timeBonus: 'Time remaining',
+};
+
+export function createScoreState(): ScoreState {
+  return {
+    breakdown: { distance: 0, powerBounces: 0, nearMisses: 0, coins: 0, court: 0, timeBonus: 0 },
+    total: 0
+  };
+}
+
+export function getCourtBonus(deflated: boolean, difficulty: Difficulty): number {
+  return deflated ? cityDifficulties[difficulty].deflatedCourtBonus : scoreSettings.courtBonus;
+}
+
+export function getTimeBonus(tick: number): number {
+  const ticksLeft = Math.max(scoreSettings.timeLimit - tick, 0);
+  return Math.floor(ticksLeft / TICKS_PER_SECOND) * scoreSettings.pointsPerSecondLeft;
+}
+
+// Fold one tick's events into the score
+export function applyScoreEvents(score: ScoreState, events: SimulationEvent[], tick: number, difficulty: Difficulty) {
+  const { breakdown } = score;
+
+  for (const event of events) {
+    switch (event.type) {
+      case 'travelled':
+        breakdown.distance += event.distance * scoreSettings.pointsPerUnit;
+        break;
+      case 'bounce':
+        breakdown.powerBounces += scoreSettings.powerBouncePoints[event.level] ?? 0;
+        break;
+      case 'nearMiss':
+        breakdown.nearMisses += scoreSettings.nearMissPoints;
+        break;
+      case 'coinCollected':
+        breakdown.coins += scoreSettings.coinPoints;
+        break;
+      case 'courtReached':
+        breakdown.court += getCourtBonus(event.deflated, difficulty);
+        breakdown.timeBonus += getTimeBonus(tick);
+        break;
+    }
+  }
+
+  score.total = Object.values(breakdown).reduce((sum, points) => sum + Math.floor(points), 0);
+}
@@ -0,0 +1,48 @@
+// Seedable pseudo-random numbers so a city layout can be reproduced
+
+// Drop-in replacement for Math.random
+export type RandomSource = () => number;
+
+// Mulberry32 - small, fast and good enough for level generation
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// FNV-1a hash of a string, used to turn text into a seed
+export function hashString(text: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Independent stream per purpose, so adding a cloud never moves a building
+export function deriveSeed(seed: number, label: string): number {
+  return hashString(`${seed >>> 0}:${label}`);
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Accept plain numbers as-is and hash anything else the player types
+export function parseSeed(input: string): number | null {
+  const text = input.trim();
+  if (!text) return null;
+
+  if (/^\d+$/.test(text)) {
+    return Number(text) >>> 0;
+  }
+
+  return hashString(text);
+}
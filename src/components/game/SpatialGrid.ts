@@ -0,0 +1,99 @@
+import * as THREE from 'three';
+
+// Uniform grid over the ground plane for broad-phase collision queries.
+// Built once per map from precomputed bounds, or every tick for things that
+// move and kept up to date as they do; a query only looks at the cells
+// around the ball, so its cost doesn't grow with the size of the city.
+
+export interface SpatialGrid {
+  cellSize: number;
+  cells: Map<number, number[]>; // cell key -> indices of the boxes touching it
+}
+
+// Room for cell coordinates between -32768 and 32767 on each axis
+const CELL_RANGE = 65536;
+const CELL_OFFSET = 32768;
+
+const cellKey = (cellX: number, cellZ: number) => (cellX + CELL_OFFSET) * CELL_RANGE + (cellZ + CELL_OFFSET);
+
+// Every cell a box touches, by key
+function forEachCell(box: THREE.Box3, cellSize: number, visit: (key: number) => void) {
+  const minX = Math.floor(box.min.x / cellSize);
+  const maxX = Math.floor(box.max.x / cellSize);
+  const minZ = Math.floor(box.min.z / cellSize);
+  const maxZ = Math.floor(box.max.z / cellSize);
+
+  for (let x = minX; x <= maxX; x++) {
+    for (let z = minZ; z <= maxZ; z++) {
+      visit(cellKey(x, z));
+    }
+  }
+}
+
+function addToGrid(grid: SpatialGrid, index: number, box: THREE.Box3) {
+  forEachCell(box, grid.cellSize, key => {
+    const cell = grid.cells.get(key);
+    if (cell) {
+      cell.push(index);
+    } else {
+      grid.cells.set(key, [index]);
+    }
+  });
+}
+
+function removeFromGrid(grid: SpatialGrid, index: number, box: THREE.Box3) {
+  forEachCell(box, grid.cellSize, key => {
+    const cell = grid.cells.get(key);
+    const at = cell ? cell.indexOf(index) : -1;
+    if (!cell || at === -1) return;
+
+    cell.splice(at, 1);
+    if (cell.length === 0) {
+      grid.cells.delete(key);
+    }
+  });
+}
+
+export function createSpatialGrid(boxes: THREE.Box3[], cellSize: number): SpatialGrid {
+  const grid: SpatialGrid = { cellSize, cells: new Map() };
+  boxes.forEach((box, index) => addToGrid(grid, index, box));
+  return grid;
+}
+
+// Keeps a grid over things that move up to date when one box's bounds change
+export function moveInGrid(grid: SpatialGrid, index: number, from: THREE.Box3, to: THREE.Box3) {
+  const { cellSize } = grid;
+  const sameCells =
+    Math.floor(from.min.x / cellSize) === Math.floor(to.min.x / cellSize) &&
+    Math.floor(from.max.x / cellSize) === Math.floor(to.max.x / cellSize) &&
+    Math.floor(from.min.z / cellSize) === Math.floor(to.min.z / cellSize) &&
+    Math.floor(from.max.z / cellSize) === Math.floor(to.max.z / cellSize);
+  if (sameCells) return;
+
+  removeFromGrid(grid, index, from);
+  addToGrid(grid, index, to);
+}
+
+// Indices of every box whose cells overlap the square around a point, in
+// ascending order so callers resolve collisions in a stable order
+export function queryGrid(grid: SpatialGrid, center: THREE.Vector3, radius: number): number[] {
+  const { cellSize, cells } = grid;
+  const minX = Math.floor((center.x - radius) / cellSize);
+  const maxX = Math.floor((center.x + radius) / cellSize);
+  const minZ = Math.floor((center.z - radius) / cellSize);
+  const maxZ = Math.floor((center.z + radius) / cellSize);
+
+  const found = new Set<number>();
+  for (let x = minX; x <= maxX; x++) {
+    for (let z = minZ; z <= maxZ; z++) {
+      const cell = cells.get(cellKey(x, z));
+      if (cell) {
+        for (const index of cell) {
+          found.add(index);
+        }
+      }
+    }
+  }
+
+  return [...found].sort((a, b) => a - b);
+}
@@ -0,0 +1,67 @@
+import { WorldDescription } from './CitySimulation';
+
+// What the ball lands on and rolls over. Levels and the generator paint
+// patches of a surface over the ground or onto a roof. Anywhere unpainted
+// is plain asphalt, and the basketball court is always hardwood.
+
+export type SurfaceType = 'asphalt' | 'grass' | 'puddle' | 'sand' | 'trampoline' | 'hardwood';
+
+export interface SurfaceMaterial {
+  friction: number; // share of horizontal speed lost per tick rolling over it
+  restitution: number; // share of speed kept bouncing off it
+  grip: number; // how quickly sliding turns into rolling, 0 to 1, see applyGrip
+  launchSpeed: number; // upward speed every landing leaves with at least, for trampolines
+}
+
+export const surfaceMaterials: Record<SurfaceType, SurfaceMaterial> = {
+  asphalt: { friction: 0.04, restitution: 0.5, grip: 0.5, launchSpeed: 0 },
+  grass: { friction: 0.07, restitution: 0.35, grip: 0.6, launchSpeed: 0 },
+  puddle: { friction: 0.02, restitution: 0.15, grip: 0.05, launchSpeed: 0 }, // skids, and splashes rather than bounces
+  sand: { friction: 0.14, restitution: 0.1, grip: 0.8, launchSpeed: 0 },
+  trampoline: { friction: 0.04, restitution: 0.9, grip: 0.5, launchSpeed: 0.45 },
+  hardwood: { friction: 0.03, restitution: 0.7, grip: 0.7, launchSpeed: 0 },
+};
+
+export const surfaceTypes = Object.keys(surfaceMaterials) as SurfaceType[];
+
+export const surfaceLabels: Record<SurfaceType, string> = {
+  asphalt: 'Asphalt',
+  grass: 'Grass',
+  puddle: 'Puddle',
+  sand: 'Sand',
+  trampoline: 'Trampoline',
+  hardwood: 'Hardwood',
+};
+
+// For the scene and the editor's map
+export const surfaceColors: Record<SurfaceType, number> = {
+  asphalt: 0x333333,
+  grass: 0x3C8D2F,
+  puddle: 0x4A6A8A,
+  sand: 0xD8C38A,
+  trampoline: 0x2266DD,
+  hardwood: 0xCD853F, // Basketball court color
+};
+
+// A painted patch as the simulation sees it, lying flat at the given height
+export interface WorldSurface {
+  type: SurfaceType;
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+  height: number; // 0 on the ground, or the top of the roof it was painted on
+}
+
+// Surface at a point on the ground (height 0) or a roof. Later patches are
+// painted over earlier ones.
+export function surfaceAt(world: WorldDescription, x: number, z: number, height: number): SurfaceType {
+  for (let i = world.surfaces.length - 1; i >= 0; i--) {
+    const surface = world.surfaces[i];
+    if (Math.abs(surface.height - height) < 0.01 &&
+        x >= surface.minX && x <= surface.maxX && z >= surface.minZ && z <= surface.maxZ) {
+      return surface.type;
+    }
+  }
+  return 'asphalt';
+}
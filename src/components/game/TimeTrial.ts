@@ -0,0 +1,107 @@
+import { WorldDescription, simulationSettings } from './CitySimulation';
+import { ballPhysics } from './BallPhysics';
+import { TICKS_PER_SECOND } from './FixedTimestep';
+import { MapSource, getMapKey } from './MapSource';
+import { Difficulty, cityDifficulties, difficultyKeySuffix } from './Difficulty';
+
+// Time-trial rules: the run is timed from the first tick until the ball
+// reaches the court, and the time is what ranks. Times are kept in ticks
+// so they compare exactly, and only converted to seconds for display.
+
+export type GameRules = 'score' | 'timeTrial';
+
+export type Medal = 'gold' | 'silver' | 'bronze';
+
+export interface MedalThresholds {
+  gold: number; // slowest time in ticks that still earns the medal
+  silver: number;
+  bronze: number;
+}
+
+export interface TimeTrialEntry {
+  name: string;
+  ticks: number;
+  medal: Medal | null;
+  replay?: string; // encoded run, see Replay
+}
+
+export const medalIcons: Record<Medal, string> = {
+  gold: '🥇',
+  silver: '🥈',
+  bronze: '🥉',
+};
+
+// How much slower than a straight run at full speed each medal allows
+const medalFactors: Record<Medal, number> = {
+  gold: 1.3,
+  silver: 1.7,
+  bronze: 2.4,
+};
+
+// Every map gets its own thresholds, measured from the straight-line run
+// at the ball's top speed on the world's difficulty.
+export function getMedalThresholds(world: WorldDescription): MedalThresholds {
+  const { startPosition, goalPosition } = world;
+  const distance = Math.hypot(
+    goalPosition.x - startPosition.x,
+    goalPosition.z - startPosition.z
+  ) - simulationSettings.goalRadius;
+  const topSpeed = ballPhysics.maxSpeed * cityDifficulties[world.difficulty].speedScale;
+  const straightRunTicks = Math.max(distance, 0) / topSpeed;
+
+  return {
+    gold: Math.ceil(straightRunTicks * medalFactors.gold),
+    silver: Math.ceil(straightRunTicks * medalFactors.silver),
+    bronze: Math.ceil(straightRunTicks * medalFactors.bronze),
+  };
+}
+
+export function getMedal(thresholds: MedalThresholds, ticks: number): Medal | null {
+  if (ticks <= thresholds.gold) return 'gold';
+  if (ticks <= thresholds.silver) return 'silver';
+  if (ticks <= thresholds.bronze) return 'bronze';
+  return null;
+}
+
+export function formatRunTime(ticks: number): string {
+  return `${(ticks / TICKS_PER_SECOND).toFixed(2)}s`;
+}
+
+// Times only compare on the same city and difficulty, so each has its own list
+export function getTimeTrialLeaderboardKey(source: MapSource, difficulty: Difficulty): string {
+  return `orangeBallTimeTrial:${getMapKey(source)}${difficultyKeySuffix(difficulty)}`;
+}
+
+export function loadTimeTrialTimes(key: string): TimeTrialEntry[] {
+  try {
+    const savedTimes = localStorage.getItem(key);
+    if (savedTimes) {
+      return JSON.parse(savedTimes);
+    }
+  } catch (e) {
+    console.log("Could not load time trial times:", e);
+  }
+  return [];
+}
+
+export function saveTimeTrialTimes(key: string, times: TimeTrialEntry[]): boolean {
+  try {
+    localStorage.setItem(key, JSON.stringify(times));
+    return true;
+  } catch (e) {
+    console.log("Could not save time trial times:", e);
+    return false;
+  }
+}
+
+// Anything that makes the top 10 gets a spot
+export function isLeaderboardTime(times: TimeTrialEntry[], ticks: number): boolean {
+  if (times.length < 10) return true;
+
+  const sortedTimes = [...times].sort((a, b) => a.ticks - b.ticks);
+  return ticks < sortedTimes[sortedTimes.length - 1].ticks;
+}
+
+export function addTimeTrialTime(times: TimeTrialEntry[], entry: TimeTrialEntry): TimeTrialEntry[] {
+  return [...times, entry].sort((a, b) => a.ticks - b.ticks).slice(0, 10);
+}
@@ -0,0 +1,101 @@
+
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Medal, MedalThresholds, TimeTrialEntry, formatRunTime, medalIcons } from './TimeTrial';
+
+interface TimeTrialDisplayProps {
+  times: TimeTrialEntry[];
+  thresholds: MedalThresholds;
+  runTicks: number | null; // null when the court wasn't reached
+  medal: Medal | null;
+  isNewTime: boolean;
+  playerName: string;
+  onPlayerNameChange: (name: string) => void;
+  onSaveTime: () => void;
+  title?: string;
+}
+
+const TimeTrialDisplay: React.FC<TimeTrialDisplayProps> = ({
+  times,
+  thresholds,
+  runTicks,
+  medal,
+  isNewTime,
+  playerName,
+  onPlayerNameChange,
+  onSaveTime,
+  title = 'Best Times'
+}) => {
+  return (
+    <div className="mt-4">
+      <h2 className="text-xl font-bold mb-1">
+        Time: {runTicks !== null ? formatRunTime(runTicks) : 'Did not finish'}
+      </h2>
+      <p className="mb-3 text-gray-700">
+        {medal ? `${medalIcons[medal]} ${medal.charAt(0).toUpperCase()}${medal.slice(1)} medal` : 'No medal'}
+      </p>
+      <p className="mb-3 text-sm text-gray-500">
+        {medalIcons.gold} {formatRunTime(thresholds.gold)} · {medalIcons.silver} {formatRunTime(thresholds.silver)} · {medalIcons.bronze} {formatRunTime(thresholds.bronze)}
+      </p>
+      
+      {isNewTime && (
+        <div className="mb-4 p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+          <p className="font-bold text-amber-700 mb-2">New Best Time! ⏱️</p>
+          <Input
+            type="text"
+            value={playerName}
+            onChange={(e) => onPlayerNameChange(e.target.value)}
+            placeholder="Enter your name"
+            maxLength={20}
+            className="w-full mb-2"
+          />
+          <Button
+            onClick={onSaveTime}
+            className="w-full bg-[#FF7700] hover:bg-[#FF9933] text-white"
+          >
+            Save Time
+          </Button>
+        </div>
+      )}
+      
+      <div>
+        <h3 className="font-bold mb-2 text-gray-700">{title}</h3>
+        <ScrollArea className="h-[150px] rounded border p-2 bg-white/90">
+          {times.length > 0 ? (
+            <div className="pr-4">
+              {times.map((entry, index) => (
+                <div 
+                  key={index} 
+                  className="py-2 border-b border-dotted border-gray-300 flex justify-between"
+                >
+                  <span className="font-medium">
+                    {index + 1}. {entry.name} {entry.medal && medalIcons[entry.medal]}
+                  </span>
+                  <span className="font-bold">
+                    {entry.replay && (
+                      <Link
+                        to={`/replay?r=${encodeURIComponent(entry.replay)}`}
+                        className="mr-2 text-[#FF7700] hover:underline"
+                        title="Watch replay"
+                      >
+                        ▶
+                      </Link>
+                    )}
+                    {formatRunTime(entry.ticks)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-500 italic text-center py-4">No times yet. Set the pace!</p>
+          )}
+        </ScrollArea>
+      </div>
+    </div>
+  );
+};
+
+export default TimeTrialDisplay;
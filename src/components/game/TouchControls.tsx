@@ -0,0 +1,164 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MoveAxis, quantizeAxis } from './InputActions';
+import { applyDeadZone } from './Gamepads';
+
+// On-screen controls for phones and tablets: a joystick that appears wherever
+// a thumb lands on the left of the screen, and a bounce button on the right.
+// Each follows its own finger, so steering and bouncing work at once.
+
+const touchSettings = {
+  joystickRadius: 50, // px the knob can travel, all the way over is full speed
+  deadZone: 0.15,
+};
+
+interface TouchControlsProps {
+  paused: boolean;
+  onMove: (axis: MoveAxis, value: number) => void;
+  onBounce: (type: 'down' | 'up') => void;
+  onPause: () => void;
+  onCamera: () => void;
+}
+
+interface Joystick {
+  pointerId: number;
+  originX: number;
+  originY: number;
+  knobX: number; // offset from the origin, px
+  knobY: number;
+}
+
+const TouchControls: React.FC<TouchControlsProps> = ({ paused, onMove, onBounce, onPause, onCamera }) => {
+  const [joystick, setJoystick] = useState<Joystick | null>(null);
+  const [bouncing, setBouncing] = useState(false);
+  const stickRef = useRef<Record<MoveAxis, number>>({ x: 0, z: 0 });
+  const bouncePointerRef = useRef<number | null>(null);
+  const onMoveRef = useRef(onMove);
+  onMoveRef.current = onMove;
+
+  // Moves are dropped while paused, so play picks up from wherever the thumb is now
+  useEffect(() => {
+    if (paused) return;
+
+    const stick = stickRef.current;
+    for (const axis of ['x', 'z'] as MoveAxis[]) {
+      if (stick[axis] !== 0) {
+        onMoveRef.current(axis, stick[axis]);
+      }
+    }
+  }, [paused]);
+
+  const moveStick = (x: number, z: number) => {
+    const stick = stickRef.current;
+    const next = { x: quantizeAxis(x), z: quantizeAxis(z) };
+
+    for (const axis of ['x', 'z'] as MoveAxis[]) {
+      if (next[axis] !== stick[axis]) {
+        stick[axis] = next[axis];
+        onMove(axis, next[axis]);
+      }
+    }
+  };
+
+  const dragJoystick = (e: React.PointerEvent, current: Joystick) => {
+    const { joystickRadius } = touchSettings;
+    const dx = e.clientX - current.originX;
+    const dy = e.clientY - current.originY;
+
+    // The knob stops at the rim, the thumb can keep going
+    const distance = Math.hypot(dx, dy);
+    const clamp = distance > joystickRadius ? joystickRadius / distance : 1;
+    setJoystick({ ...current, knobX: dx * clamp, knobY: dy * clamp });
+
+    // Screen down is towards the camera, the same as the world's z
+    const [x, z] = applyDeadZone(dx * clamp / joystickRadius, dy * clamp / joystickRadius, touchSettings.deadZone);
+    moveStick(x, z);
+  };
+
+  const releaseJoystick = (e: React.PointerEvent) => {
+    if (joystick?.pointerId !== e.pointerId) return;
+    setJoystick(null);
+    moveStick(0, 0);
+  };
+
+  const releaseBounce = (e: React.PointerEvent) => {
+    if (bouncePointerRef.current !== e.pointerId) return;
+    bouncePointerRef.current = null;
+    setBouncing(false);
+    onBounce('up');
+  };
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 h-1/2 z-10 pointer-events-none select-none">
+      {/* Joystick area, the left half of the lower screen */}
+      <div
+        className="absolute left-0 bottom-0 w-1/2 h-full pointer-events-auto touch-none"
+        onPointerDown={(e) => {
+          if (joystick) return;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setJoystick({ pointerId: e.pointerId, originX: e.clientX, originY: e.clientY, knobX: 0, knobY: 0 });
+        }}
+        onPointerMove={(e) => {
+          if (joystick?.pointerId === e.pointerId) dragJoystick(e, joystick);
+        }}
+        onPointerUp={releaseJoystick}
+        onPointerCancel={releaseJoystick}
+        onContextMenu={(e) => e.preventDefault()}
+      >
+        {joystick ? (
+          <div
+            className="fixed rounded-full bg-black/20 border-2 border-white/60"
+            style={{
+              left: joystick.originX - touchSettings.joystickRadius,
+              top: joystick.originY - touchSettings.joystickRadius,
+              width: touchSettings.joystickRadius * 2,
+              height: touchSettings.joystickRadius * 2,
+            }}
+          >
+            <div
+              className="absolute left-1/2 top-1/2 w-12 h-12 -ml-6 -mt-6 rounded-full bg-[#FF7700]/90 shadow-lg"
+              style={{ transform: `translate(${joystick.knobX}px, ${joystick.knobY}px)` }}
+            />
+          </div>
+        ) : (
+          <div className="absolute left-8 bottom-8 w-[100px] h-[100px] rounded-full border-2 border-dashed border-white/50 flex items-center justify-center text-white/70 text-xs">
+            Drag to move
+          </div>
+        )}
+      </div>
+
+      <button
+        className={`absolute right-8 bottom-8 w-24 h-24 rounded-full text-white font-bold shadow-lg pointer-events-auto touch-none transition-colors ${bouncing ? 'bg-[#FF9933] scale-95' : 'bg-[#FF7700]/90'}`}
+        onPointerDown={(e) => {
+          if (bouncePointerRef.current !== null) return;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          bouncePointerRef.current = e.pointerId;
+          setBouncing(true);
+          onBounce('down');
+        }}
+        onPointerUp={releaseBounce}
+        onPointerCancel={releaseBounce}
+        onContextMenu={(e) => e.preventDefault()}
+      >
+        BOUNCE
+      </button>
+
+      <button
+        className="absolute right-8 bottom-36 w-12 h-12 rounded-full bg-black/40 text-white font-bold pointer-events-auto touch-none"
+        onClick={onPause}
+        aria-label="Pause"
+      >
+        ❚❚
+      </button>
+
+      <button
+        className="absolute right-24 bottom-36 w-12 h-12 rounded-full bg-black/40 text-white text-xs font-bold pointer-events-auto touch-none"
+        onClick={onCamera}
+        aria-label="Change camera"
+      >
+        CAM
+      </button>
+    </div>
+  );
+};
+
+export default TouchControls;
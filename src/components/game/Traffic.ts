@@ -0,0 +1,386 @@
+import * as THREE from 'three';
+import { hashString } from './SeededRandom';
+import { Pedestrian, Walkway } from './Pedestrians';
+import { ActorBroadPhase, WorldDescription, WorldObstacle } from './CitySimulation';
+import { moveInGrid, queryGrid } from './SpatialGrid';
+
+// Cars driving the road grid, stepped by the simulation like the pedestrians.
+// Each road has a lane in each direction. Cars keep their distance from
+// whatever is in front, give way at crossings - roads along x have priority,
+// and nobody enters a crossing another car is in - and leave at the end of
+// their road to come back in at the start of another one.
+
+export const trafficSettings = {
+  cruiseSpeed: 0.2,
+  acceleration: 0.004,
+  braking: 0.012,
+  popSpeed: 0.15, // a car hitting the ball faster than this pops it
+  laneOffset: 1.75, // from the road's centre line, each direction has its own side
+  carLength: 4,
+  carWidth: 2,
+  carHeight: 1.5,
+  followDistance: 2, // gap kept to whatever is in front
+  lookAhead: 10,
+  slowDownRate: 0.05, // target speed per unit of free road in front
+  minSpeed: 0.01, // slower than this and the car stops rather than creeping up on the gap
+  spawnClearance: 15, // cars starting closer than this to the ball would be unfair
+  knockbackSpeed: 0.15,
+  knockbackLift: 0.2,
+};
+
+export interface Car {
+  road: number; // index into the world's walkways, which are the roads
+  direction: number; // 1 or -1 along the road's axis
+  position: THREE.Vector3; // on the ground, centre of the car
+  speed: number;
+  heading: number; // facing angle around y, for drawing
+  spawned: boolean; // placed at a road's start this tick rather than driven there
+  obstacle: WorldObstacle; // what the ball collides with, moved along with the car
+}
+
+// Where two roads overlap
+interface Crossing {
+  minX: number;
+  maxX: number;
+  minZ: number;
+  maxZ: number;
+}
+
+export interface TrafficState {
+  cars: Car[];
+  crossings: Crossing[];
+}
+
+type Axis = 'x' | 'z';
+
+const otherAxis = (axis: Axis): Axis => axis === 'x' ? 'z' : 'x';
+const rangeMin = (area: Crossing, axis: Axis) => axis === 'x' ? area.minX : area.minZ;
+const rangeMax = (area: Crossing, axis: Axis) => axis === 'x' ? area.maxX : area.maxZ;
+const rangeCentre = (area: Crossing, axis: Axis) => (rangeMin(area, axis) + rangeMax(area, axis)) / 2;
+
+const headingFor = (axis: Axis, direction: number) =>
+  axis === 'x' ? direction * Math.PI / 2 : (direction > 0 ? 0 : Math.PI);
+
+// Deterministic 0..1 roll per car, tick and purpose
+const roll = (index: number, tick: number, purpose: string) =>
+  hashString(`car-${purpose}:${index}:${tick}`) / 4294967296;
+
+export function createTraffic(world: WorldDescription): TrafficState {
+  const { walkways: roads } = world;
+  const { carLength, spawnClearance } = trafficSettings;
+  const crossings = findCrossings(roads);
+  const cars: Car[] = [];
+
+  roads.forEach((road, roadIndex) => {
+    const length = rangeMax(road, road.axis) - rangeMin(road, road.axis);
+    const perLane = Math.floor((length / 100) * world.trafficDensity);
+
+    for (const direction of [1, -1]) {
+      for (let i = 0; i < perLane; i++) {
+        // Spread evenly, with the two directions out of step
+        const along = rangeMin(road, road.axis) + carLength + ((i + (direction > 0 ? 0.25 : 0.75)) / perLane) * (length - carLength * 2);
+        const car = createCar(road, roadIndex, direction, along);
+
+        // Nobody starts in a crossing, where crossing traffic could start too - move up past it
+        const crossing = crossings.find(area => intersectsArea(car.obstacle.bounds, area));
+        if (crossing) {
+          car.position[road.axis] = car.direction > 0
+            ? rangeMax(crossing, road.axis) + carLength / 2
+            : rangeMin(crossing, road.axis) - carLength / 2;
+          updateBounds(car, road.axis);
+        }
+
+        const onSomeone = world.pedestrians.some(spawn => spawn.bounds.intersectsBox(car.obstacle.bounds));
+        if (!onSomeone && car.position.distanceTo(world.startPosition) > spawnClearance) {
+          cars.push(car);
+        }
+      }
+    }
+  });
+
+  return { cars, crossings };
+}
+
+const intersectsArea = (bounds: THREE.Box3, area: Crossing) =>
+  bounds.min.x < area.maxX && bounds.max.x > area.minX && bounds.min.z < area.maxZ && bounds.max.z > area.minZ;
+
+function findCrossings(roads: Walkway[]): Crossing[] {
+  const crossings: Crossing[] = [];
+
+  roads.forEach((road, index) => {
+    for (const other of roads.slice(index + 1)) {
+      if (other.axis === road.axis) continue;
+
+      const crossing = {
+        minX: Math.max(road.minX, other.minX),
+        maxX: Math.min(road.maxX, other.maxX),
+        minZ: Math.max(road.minZ, other.minZ),
+        maxZ: Math.min(road.maxZ, other.maxZ)
+      };
+      if (crossing.minX < crossing.maxX && crossing.minZ < crossing.maxZ) {
+        crossings.push(crossing);
+      }
+    }
+  });
+
+  return crossings;
+}
+
+function createCar(road: Walkway, roadIndex: number, direction: number, along: number): Car {
+  const position = new THREE.Vector3();
+  position[road.axis] = along;
+  position[otherAxis(road.axis)] = laneCentre(road, direction);
+
+  const car: Car = {
+    road: roadIndex,
+    direction,
+    position,
+    speed: trafficSettings.cruiseSpeed,
+    heading: headingFor(road.axis, direction),
+    spawned: true,
+    obstacle: { type: 'car', dangerous: false, bounds: new THREE.Box3() }
+  };
+  updateBounds(car, road.axis);
+  return car;
+}
+
+const laneCentre = (road: Walkway, direction: number) =>
+  rangeCentre(road, otherAxis(road.axis)) + direction * trafficSettings.laneOffset;
+
+const boundsCentre = new THREE.Vector3();
+const boundsHalfSize = new THREE.Vector3();
+
+function updateBounds(car: Car, axis: Axis) {
+  const { carLength, carWidth, carHeight } = trafficSettings;
+  boundsHalfSize.y = carHeight / 2;
+  boundsHalfSize[axis] = carLength / 2;
+  boundsHalfSize[otherAxis(axis)] = carWidth / 2;
+
+  boundsCentre.set(car.position.x, carHeight / 2, car.position.z);
+  car.obstacle.bounds.setFromCenterAndSize(boundsCentre, boundsHalfSize.multiplyScalar(2));
+}
+
+// The car's bounds stretched over the road it covers before it could stop,
+// for people deciding whether it is safe to cross
+export function drivingArea(car: Car, world: WorldDescription, target: THREE.Box3): THREE.Box3 {
+  const { axis } = world.walkways[car.road];
+  const reach = car.speed * car.speed / (2 * trafficSettings.braking) + trafficSettings.followDistance;
+
+  target.copy(car.obstacle.bounds);
+  if (car.direction > 0) {
+    target.max[axis] += reach;
+  } else {
+    target.min[axis] -= reach;
+  }
+  return target;
+}
+
+const previousBounds = new THREE.Box3();
+
+// Advance every car by one tick. The cars' grid is kept up to date as each
+// one moves, so those after it see where it is now.
+export function stepTraffic(
+  traffic: TrafficState,
+  world: WorldDescription,
+  pedestrians: Pedestrian[],
+  actors: ActorBroadPhase,
+  tick: number
+) {
+  traffic.cars.forEach((car, index) => {
+    car.spawned = false;
+    previousBounds.copy(car.obstacle.bounds);
+
+    const road = world.walkways[car.road];
+    const { axis } = road;
+    const front = car.position[axis] + car.direction * trafficSettings.carLength / 2;
+
+    // Off the end of the road - come back in somewhere else
+    if (front < rangeMin(road, axis) || front > rangeMax(road, axis)) {
+      respawn(traffic, world, actors, car, index, tick);
+      moveInGrid(actors.cars, index, previousBounds, car.obstacle.bounds);
+      return;
+    }
+
+    const targetSpeed = Math.min(
+      trafficSettings.cruiseSpeed,
+      speedForGap(clearRoadAhead(traffic, world, pedestrians, actors, car, axis)),
+      speedForGap(distanceToGiveWay(traffic, world, actors, car, road))
+    );
+
+    if (targetSpeed > car.speed) {
+      car.speed = Math.min(targetSpeed, car.speed + trafficSettings.acceleration);
+    } else {
+      car.speed = Math.max(targetSpeed, car.speed - trafficSettings.braking);
+    }
+
+    car.position[axis] += car.direction * car.speed;
+    updateBounds(car, axis);
+    moveInGrid(actors.cars, index, previousBounds, car.obstacle.bounds);
+  });
+}
+
+const speedForGap = (gap: number) => {
+  const speed = Math.max(0, gap - trafficSettings.followDistance) * trafficSettings.slowDownRate;
+  return speed < trafficSettings.minSpeed ? 0 : speed;
+};
+
+const ahead = new THREE.Vector3();
+
+// Free road between the car's front and the next car or person in its lane
+function clearRoadAhead(
+  traffic: TrafficState,
+  world: WorldDescription,
+  pedestrians: Pedestrian[],
+  actors: ActorBroadPhase,
+  car: Car,
+  axis: Axis
+): number {
+  const { carLength, carWidth, lookAhead } = trafficSettings;
+  const lateral = otherAxis(axis);
+  let gap = Infinity;
+
+  // Only what's on the stretch of road in front can be in the way
+  ahead.copy(car.position);
+  ahead[axis] += car.direction * (carLength + lookAhead) / 2;
+  const reach = lookAhead / 2 + carLength;
+
+  const check = (position: THREE.Vector3, halfLength: number, halfWidth: number) => {
+    if (Math.abs(position[lateral] - car.position[lateral]) > carWidth / 2 + halfWidth) return;
+
+    const distance = (position[axis] - car.position[axis]) * car.direction - carLength / 2 - halfLength;
+    if (distance > -halfLength && distance < lookAhead) {
+      gap = Math.min(gap, Math.max(distance, 0));
+    }
+  };
+
+  for (const index of queryGrid(actors.cars, ahead, reach)) {
+    const other = traffic.cars[index];
+    if (other === car) continue;
+
+    // Crossing traffic sits across the lane, so its width counts along it
+    if (world.walkways[other.road].axis === axis) {
+      check(other.position, carLength / 2, carWidth / 2);
+    } else {
+      check(other.position, carWidth / 2, carLength / 2);
+    }
+  }
+
+  for (const index of queryGrid(actors.pedestrians, ahead, reach)) {
+    check(pedestrians[index].position, 0.3, 0.3);
+  }
+
+  return gap;
+}
+
+// Distance to the next crossing the car has to wait at, or Infinity to drive on
+function distanceToGiveWay(
+  traffic: TrafficState,
+  world: WorldDescription,
+  actors: ActorBroadPhase,
+  car: Car,
+  road: Walkway
+): number {
+  const { axis } = road;
+  const lateral = otherAxis(axis);
+  const { carLength, lookAhead } = trafficSettings;
+  const front = car.position[axis] + car.direction * carLength / 2;
+
+  for (const crossing of traffic.crossings) {
+    const lane = car.position[lateral];
+    if (lane < rangeMin(crossing, lateral) || lane > rangeMax(crossing, lateral)) continue;
+
+    const entry = car.direction > 0 ? rangeMin(crossing, axis) : rangeMax(crossing, axis);
+    const distance = (entry - front) * car.direction;
+
+    // Already in it, or too far off to care yet
+    if (distance < 0 || distance > lookAhead) continue;
+
+    if (mustGiveWay(traffic, world, actors, car, axis, crossing)) {
+      return distance;
+    }
+  }
+
+  return Infinity;
+}
+
+const crossingCentre = new THREE.Vector3();
+
+function mustGiveWay(
+  traffic: TrafficState,
+  world: WorldDescription,
+  actors: ActorBroadPhase,
+  car: Car,
+  axis: Axis,
+  crossing: Crossing
+): boolean {
+  // Only cars in the crossing or about to drive into it matter
+  crossingCentre.set(rangeCentre(crossing, 'x'), 0, rangeCentre(crossing, 'z'));
+  const reach = Math.max(crossing.maxX - crossing.minX, crossing.maxZ - crossing.minZ) / 2 +
+    trafficSettings.lookAhead + trafficSettings.carLength;
+
+  return queryGrid(actors.cars, crossingCentre, reach).some(index => {
+    const other = traffic.cars[index];
+    if (other === car) return false;
+
+    const otherRoadAxis = world.walkways[other.road].axis;
+    if (otherRoadAxis === axis) return false;
+
+    // Nobody enters a crossing that crossing traffic is in
+    if (intersectsArea(other.obstacle.bounds, crossing)) return true;
+
+    // Roads along z also wait for cars about to cross on an x road
+    if (axis === 'z') {
+      const otherFront = other.position[otherRoadAxis] + other.direction * trafficSettings.carLength / 2;
+      const otherEntry = other.direction > 0 ? rangeMin(crossing, otherRoadAxis) : rangeMax(crossing, otherRoadAxis);
+      const lane = other.position[axis];
+      const inLine = lane >= rangeMin(crossing, axis) && lane <= rangeMax(crossing, axis);
+      const distance = (otherEntry - otherFront) * other.direction;
+      return inLine && distance >= 0 && distance <= trafficSettings.lookAhead;
+    }
+
+    return false;
+  });
+}
+
+// Re-enter from a standstill at the very start of a road, picked by a roll
+// and skipping lanes whose start is taken. Starting still gives the car room
+// to wait at the first crossing.
+function respawn(
+  traffic: TrafficState,
+  world: WorldDescription,
+  actors: ActorBroadPhase,
+  car: Car,
+  index: number,
+  tick: number
+) {
+  const roads = world.walkways;
+  const first = Math.floor(roll(index, tick, 'road') * roads.length);
+  const direction = roll(index, tick, 'direction') < 0.5 ? 1 : -1;
+
+  for (let attempt = 0; attempt < roads.length; attempt++) {
+    const roadIndex = (first + attempt) % roads.length;
+    const road = roads[roadIndex];
+    const along = direction > 0
+      ? rangeMin(road, road.axis) + trafficSettings.carLength / 2
+      : rangeMax(road, road.axis) - trafficSettings.carLength / 2;
+
+    const start = new THREE.Vector3();
+    start[road.axis] = along;
+    start[otherAxis(road.axis)] = laneCentre(road, direction);
+
+    const startTaken = queryGrid(actors.cars, start, trafficSettings.carLength).some(other =>
+      other !== index && traffic.cars[other].obstacle.bounds.distanceToPoint(start) < trafficSettings.carLength
+    );
+
+    if (!startTaken || attempt === roads.length - 1) {
+      car.road = roadIndex;
+      car.direction = direction;
+      car.position.copy(start);
+      car.speed = 0;
+      car.heading = headingFor(road.axis, direction);
+      car.spawned = true;
+      updateBounds(car, road.axis);
+      return;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import * as React from "react"
+
+// Phones and tablets, whatever their size - a coarse pointer means a finger
+export function useIsTouchDevice() {
+  const [isTouch, setIsTouch] = React.useState<boolean | undefined>(undefined)
+
+  React.useEffect(() => {
+    const mql = window.matchMedia("(pointer: coarse)")
+    const onChange = () => {
+      setIsTouch(mql.matches)
+    }
+    mql.addEventListener("change", onChange)
+    setIsTouch(mql.matches)
+    return () => mql.removeEventListener("change", onChange)
+  }, [])
+
+  return !!isTouch
+}
@@ -0,0 +1,56 @@
+
+import React, { useEffect, useState } from 'react';
+import OrangeBall3DGame from '@/components/OrangeBall3DGame';
+import LevelEditor from '@/components/game/LevelEditor';
+import { LevelData, parseLevelData } from '@/components/game/Levels';
+import { createEmptyLevel } from '@/components/game/LevelEditing';
+
+// Work in progress survives a reload
+const editorDraftKey = 'orangeBallEditorDraft';
+
+const loadDraft = (): LevelData => {
+  try {
+    const savedDraft = localStorage.getItem(editorDraftKey);
+    const draft = savedDraft && parseLevelData(JSON.parse(savedDraft));
+    if (draft) {
+      return draft;
+    }
+  } catch (e) {
+    console.log("Could not load editor draft:", e);
+  }
+  return createEmptyLevel();
+};
+
+const Editor = () => {
+  const [level, setLevel] = useState<LevelData>(loadDraft);
+  const [playTesting, setPlayTesting] = useState(false);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(editorDraftKey, JSON.stringify(level));
+    } catch (e) {
+      console.log("Could not save editor draft:", e);
+    }
+  }, [level]);
+
+  if (playTesting) {
+    return (
+      <div className="h-screen w-screen overflow-hidden">
+        <OrangeBall3DGame
+          initialSource={{ mode: 'custom', level }}
+          onExit={() => setPlayTesting(false)}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <LevelEditor
+      level={level}
+      onChange={setLevel}
+      onPlayTest={() => setPlayTesting(true)}
+    />
+  );
+};
+
+export default Editor;
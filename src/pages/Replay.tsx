@@ -0,0 +1,61 @@
+
+import React, { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import ReplayViewer from '@/components/game/ReplayViewer';
+import { decodeReplay } from '@/components/game/Replay';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+
+const ReplayPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [replayInput, setReplayInput] = useState('');
+  const code = searchParams.get('r');
+  const replay = useMemo(() => (code ? decodeReplay(code) : null), [code]);
+
+  const loadReplay = () => {
+    setSearchParams({ r: replayInput.trim() });
+  };
+
+  if (!replay) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100">
+        <div className="w-full max-w-lg bg-white p-6 rounded-lg shadow-lg">
+          <h1 className="text-2xl font-bold mb-2 text-[#FF7700]">Watch a Replay</h1>
+          {code && <p className="mb-2 text-red-600">That replay code couldn't be read.</p>}
+          <Textarea
+            value={replayInput}
+            onChange={(e) => setReplayInput(e.target.value)}
+            placeholder="Paste a replay code (OBR9|...)"
+            className="mb-4 font-mono text-xs"
+          />
+          <div className="flex justify-between items-center">
+            <Link to="/" className="text-blue-500 hover:text-blue-700 underline">
+              Back to the game
+            </Link>
+            <Button
+              onClick={loadReplay}
+              disabled={!replayInput.trim()}
+              className="bg-[#FF7700] hover:bg-[#FF9933] text-white"
+            >
+              Watch
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen w-screen overflow-hidden relative">
+      <ReplayViewer replay={replay} />
+      <Link
+        to="/"
+        className="absolute top-2 left-5 z-10 text-white bg-black/30 p-2 rounded-lg hover:bg-black/50"
+      >
+        ← Back to the game
+      </Link>
+    </div>
+  );
+};
+
+export default ReplayPage;